@@ -1,36 +1,78 @@
 import { defineConfig } from '@rslib/core';
 
+const minify = {
+  js: true,
+  css: false,
+  jsOptions: {
+    minimizerOptions: {
+      mangle: false,
+      // 启用压缩
+      minify: true,
+      compress: {
+        defaults: false,
+        unused: true,
+        dead_code: true,
+        // 避免 remoteEntry 的全局变量被 tree-shaking
+        toplevel: false
+      },
+      format: {
+        comments: 'some',
+        preserve_annotations: true
+      }
+    }
+  }
+} as const;
+
 export default defineConfig({
   lib: [
     {
       format: 'esm',
       syntax: 'es2023',
-      dts: true
+      dts: true,
+      source: {
+        entry: { index: './src/index.ts' }
+      }
+    },
+    {
+      // Node.js 传输入口（依赖 ws），错误类引用主入口
+      format: 'esm',
+      syntax: 'es2023',
+      source: {
+        entry: { node: './src/node.ts' }
+      },
+      output: {
+        externals: { '../core/errors': './index.js' }
+      }
+    },
+    {
+      // 服务端入口（依赖 ws 与 Node.js），错误类与编解码注册表引用主入口，保证 instanceof 判断与 registerCodec 生效
+      format: 'esm',
+      syntax: 'es2023',
+      source: {
+        entry: { server: './src/server/index.ts' }
+      },
+      output: {
+        externals: {
+          '../core/errors': './index.js',
+          '../core/codec': './index.js',
+          '../transport/node': './node.js'
+        }
+      }
+    },
+    {
+      // 测试工具入口，引用主入口而不重复打包，保证 instanceof 判断一致
+      format: 'esm',
+      syntax: 'es2023',
+      source: {
+        entry: { testing: './src/testing/index.ts' }
+      },
+      output: {
+        externals: { '../index': './index.js', '../server': './server.js' }
+      }
     }
   ],
   output: {
     copy: [{ from: 'README.md' }],
-    minify: {
-      js: true,
-      css: false,
-      jsOptions: {
-        minimizerOptions: {
-          mangle: false,
-          // 启用压缩
-          minify: true,
-          compress: {
-            defaults: false,
-            unused: true,
-            dead_code: true,
-            // 避免 remoteEntry 的全局变量被 tree-shaking
-            toplevel: false
-          },
-          format: {
-            comments: 'some',
-            preserve_annotations: true
-          }
-        }
-      }
-    }
+    minify
   }
 });
@@ -2,81 +2,267 @@
  * 现代化 JSON-RPC WebSocket 客户端
  * 特性：
  * - 完全类型安全
- * - 自动重连
- * - 请求超时
+ * - 自动重连（重连后恢复流式订阅）
+ * - 多端点故障转移
+ * - 连接鉴权握手
+ * - 链路追踪
+ * - 离线队列
+ * - 并发限制与限速
+ * - 请求超时与重试
  * - 心跳检测
- * - 流式响应
+ * - 流式响应（支持异步迭代）
+ * - 双向调用（处理服务端请求与通知）
+ * - 中间件
  * - 性能监控
  */
 
-import { decode, encode } from '../pack';
-import { generateUUID } from '../tools';
+import { generateUUID, sleep } from '../tools';
+import { defaultTransport } from '../transport';
 import type {
+  ApiMethod,
+  ApiProxy,
+  ApiResult,
+  TypedNotificationOptions,
+  TypedRequestOptions,
+  TypedStreamIteratorOptions,
+  TypedStreamOptions,
+  UntypedApi,
+  UntypedOptions,
+} from '../types/api';
+import type { Codec, WireData } from '../types/codec';
+import type {
+  JsonRpcBatch,
+  JsonRpcMessage,
   JsonRpcNotification,
   JsonRpcRequest,
   JsonRpcResponse,
 } from '../types/jsonrpc';
-import { JsonRpcErrorCode } from '../types/jsonrpc';
+import {
+  JsonRpcErrorCode,
+  createErrorResponse,
+  createSuccessResponse,
+  isJsonRpcRequest,
+} from '../types/jsonrpc';
+import type { LogFields, LogLevel, Logger } from '../types/logger';
 import type {
+  AuthClient,
+  AuthContext,
+  BatchBuilder,
   ConnectionOptions,
+  EndpointChangeReason,
+  EndpointHealth,
+  MethodHandler,
+  Middleware,
+  MiddlewareContext,
+  NotificationHandler,
   NotificationOptions,
   PerformanceStats,
+  RawOutboundData,
+  ReconnectPolicy,
   RequestMetadata,
   RequestOptions,
-  RawOutboundData,
   SocketEvents,
   StreamController,
+  StreamIterator,
+  StreamIteratorOptions,
   StreamOptions,
 } from '../types/socket';
 import { ConnectionState, SocketEvent } from '../types/socket';
+import type { Span, SpanKind } from '../types/tracing';
+import type { Transport, TransportCloseEvent } from '../types/transport';
+import { resolveCodec } from './codec';
+import { EndpointManager, toEndpointList } from './endpoints';
+import {
+  JsonRpcAbortError,
+  JsonRpcConnectionClosedError,
+  JsonRpcQueueError,
+  JsonRpcRemoteError,
+  JsonRpcTimeoutError,
+  createRemoteError,
+  toErrorResponse,
+} from './errors';
 import { EventEmitter } from './event-emitter';
+import { OutboundLimiter } from './limiter';
+import { createConsoleLogger, redactFields } from './logger';
+import { composeMiddleware } from './middleware';
+import { OfflineQueue } from './offline-queue';
+import { createApiProxy } from './proxy';
+import { fixedInterval } from './reconnect';
+import { isRetryable, resolveRetry, retryDelay } from './retry';
+import type { StatsCounters } from './stats';
+import {
+  LatencyHistogram,
+  MethodStatsTable,
+  byteLength,
+  createCounters,
+} from './stats';
+import { ClientStream } from './stream';
+import { ClientStreamIterator } from './stream-iterator';
+
+/**
+ * 批量请求条目（通知没有结算回调）
+ */
+interface BatchEntry {
+  message: JsonRpcRequest | JsonRpcNotification;
+  timeout?: number;
+  signal?: AbortSignal;
+  resolve?: (value: unknown) => void;
+  reject?: (error: Error) => void;
+}
+
+/**
+ * 经过中间件、等待合并发送的批量条目
+ */
+interface BatchSlot {
+  message: JsonRpcRequest | JsonRpcNotification;
+  entry: BatchEntry;
+  /** 结束该条目的最内层 next()：请求传入响应，通知在发送后调用 */
+  settle: (response?: JsonRpcResponse) => void;
+  fail: (error: Error) => void;
+}
+
+/**
+ * 拒绝批量请求中的所有请求并抛出错误
+ */
+function rejectBatch(entries: BatchEntry[], error: unknown): never {
+  for (const entry of entries) {
+    entry.reject?.(error as Error);
+  }
+  throw error;
+}
 
-const DEFAULT_OPTIONS: Required<Omit<ConnectionOptions, 'url' | 'protocols'>> =
-  {
-    autoReconnect: true,
-    reconnectInterval: 3000,
-    maxReconnectAttempts: 5,
-    defaultTimeout: 15000,
-    heartbeatInterval: 0, // 默认关闭，需要时手动开启
-    heartbeatMethod: 'ping',
-    debug: false,
-    inboundMode: 'messagepack',
-    outboundMode: 'messagepack',
-  };
-
-export class JsonRpcWebSocketClient extends EventEmitter<SocketEvents> {
-  private ws: WebSocket | null = null;
+const DEFAULT_OPTIONS: Required<
+  Omit<
+    ConnectionOptions,
+    | 'url'
+    | 'protocols'
+    | 'reconnectPolicy'
+    | 'retryRules'
+    | 'errorClasses'
+    | 'authenticate'
+    | 'tracer'
+    | 'logger'
+    | 'rateLimit'
+  >
+> = {
+  autoReconnect: true,
+  reconnectInterval: 3000,
+  maxReconnectAttempts: 5,
+  defaultTimeout: 15000,
+  heartbeatInterval: 0, // 默认关闭，需要时手动开启
+  heartbeatMethod: 'ping',
+  heartbeatMode: 'notify',
+  heartbeatTimeout: 5000,
+  maxMissedHeartbeats: 2,
+  debug: false,
+  redact: [],
+  inboundMode: 'messagepack',
+  outboundMode: 'messagepack',
+  cancelMethod: '',
+  cancelParams: (id) => ({ id }),
+  queueWhileDisconnected: false,
+  maxQueueSize: 100,
+  maxQueueAge: 30000,
+  transport: defaultTransport,
+  traceField: 'trace',
+  lazy: false,
+  failoverThreshold: 2,
+  endpointCooldown: 30000,
+  failbackInterval: 30000,
+  maxConcurrentRequests: 0,
+  requestQueue: 'fifo',
+};
+
+export class JsonRpcWebSocketClient<
+  TApi extends object = UntypedApi,
+> extends EventEmitter<SocketEvents> {
+  private transport: Transport | null = null;
   private options: ConnectionOptions & typeof DEFAULT_OPTIONS;
   private pendingRequests = new Map<string | number, RequestMetadata>();
-  private streamCallbacks = new Map<
-    string | number,
-    (response: JsonRpcResponse) => void
-  >();
+  private streams = new Map<string | number, ClientStream>();
+  private streamSpans = new Map<string | number, Span>();
+  private methodHandlers = new Map<string, MethodHandler>();
+  private middlewares: Middleware[] = [];
+  private notificationHandlers = new Map<string, Set<NotificationHandler>>();
   private reconnectAttempts = 0;
+  private hasOpened = false;
+  private disconnectedAt: number | null = null;
   private reconnectTimeoutId: NodeJS.Timeout | null = null;
   private heartbeatIntervalId: NodeJS.Timeout | null = null;
-  private stats: PerformanceStats = {
-    requestsSent: 0,
-    responsesReceived: 0,
-    timeouts: 0,
-    errors: 0,
-    averageResponseTime: 0,
-    pendingRequests: 0,
-    reconnectCount: 0,
-  };
-  private responseTimes: number[] = [];
+  private failbackIntervalId: NodeJS.Timeout | null = null;
+  private endpoints: EndpointManager;
+  private resolving: object | null = null;
+  private authenticating: Transport | null = null;
+  private probe: Transport | null = null;
+  private switchReason: EndpointChangeReason | null = null;
+  private stats: StatsCounters = createCounters();
+  private latency = new LatencyHistogram();
+  private heartbeatLatency = new LatencyHistogram();
+  private methodStats = new MethodStatsTable();
+  private queueWait = new LatencyHistogram();
+  private heartbeatPending = false;
+  private heartbeatProbe: {
+    id: string;
+    settle: () => void;
+    cancel: (error: Error) => void;
+  } | null = null;
+  private consecutiveMissedHeartbeats = 0;
+  private inboundCodec: Codec | null;
+  private outboundCodec: Codec | null;
+  private offlineQueue: OfflineQueue;
+  private limiter: OutboundLimiter | null;
+  private logger: Logger | null;
+  private reconnectPolicy: ReconnectPolicy;
+  private connectionWaiters = new Set<{
+    resolve: () => void;
+    reject: (error: Error) => void;
+  }>();
 
   constructor(options: ConnectionOptions) {
     super();
     this.options = { ...DEFAULT_OPTIONS, ...options };
-    this.connect();
+    this.inboundCodec = resolveCodec(this.options.inboundMode);
+    this.outboundCodec = resolveCodec(this.options.outboundMode);
+    this.logger =
+      this.options.logger ??
+      (this.options.debug ? createConsoleLogger() : null);
+    this.endpoints = new EndpointManager(
+      typeof options.url === 'function' ? [] : toEndpointList(options.url),
+      this.options.failoverThreshold,
+      this.options.endpointCooldown,
+    );
+    this.offlineQueue = new OfflineQueue(
+      this.options.maxQueueSize,
+      this.options.maxQueueAge,
+    );
+    this.limiter =
+      this.options.maxConcurrentRequests > 0 || this.options.rateLimit
+        ? new OutboundLimiter(
+            this.options.maxConcurrentRequests,
+            this.options.requestQueue,
+            this.options.rateLimit,
+          )
+        : null;
+    this.reconnectPolicy =
+      this.options.reconnectPolicy ??
+      fixedInterval({
+        interval: this.options.reconnectInterval,
+        maxAttempts: this.options.maxReconnectAttempts,
+      });
+
+    if (!this.options.lazy) {
+      this.openTransport();
+    }
   }
 
   /**
    * 获取连接状态
    */
   get state(): ConnectionState {
-    return this.ws?.readyState ?? ConnectionState.Closed;
+    if (this.resolving || this.authenticating) {
+      return ConnectionState.Connecting;
+    }
+    return this.transport?.readyState ?? ConnectionState.Closed;
   }
 
   /**
@@ -87,362 +273,2038 @@ export class JsonRpcWebSocketClient extends EventEmitter<SocketEvents> {
   }
 
   /**
-   * 获取性能统计
+   * 等待响应的请求数（与 getStats().pendingRequests 相同，无需生成统计快照）
    */
-  getStats(): Readonly<PerformanceStats> {
-    return { ...this.stats, pendingRequests: this.pendingRequests.size };
+  get pendingCount(): number {
+    return this.pendingRequests.size;
   }
 
   /**
-   * 建立连接
+   * 底层传输是否打开（鉴权期间为 true，此时 isConnected 仍为 false）
    */
-  private connect(): void {
-    if (this.ws && this.ws.readyState === ConnectionState.Connecting) {
-      return;
-    }
+  private get isTransportOpen(): boolean {
+    return this.transport?.readyState === ConnectionState.Open;
+  }
 
-    try {
-      this.ws = new WebSocket(this.options.url, this.options.protocols);
-      this.ws.binaryType = 'arraybuffer';
+  /**
+   * 当前端点（解析函数尚未返回时为 null）
+   */
+  get endpoint(): string | null {
+    return this.endpoints.current;
+  }
 
-      this.ws.onopen = this.handleOpen.bind(this);
-      this.ws.onmessage = this.handleMessage.bind(this);
-      this.ws.onclose = this.handleClose.bind(this);
-      this.ws.onerror = this.handleError.bind(this);
-    } catch (error) {
-      this.log('Connection error:', error);
-      this.scheduleReconnect();
-    }
+  /**
+   * 获取各端点的健康状态（按优先级排列）
+   */
+  getEndpoints(): EndpointHealth[] {
+    return this.endpoints.health();
   }
 
   /**
-   * 处理连接打开
+   * 获取性能统计
    */
-  private handleOpen(event: Event): void {
-    this.log('Connection opened');
-    this.reconnectAttempts = 0;
-    this.startHeartbeat();
-    this.emit(SocketEvent.Open, event);
+  getStats(): Readonly<PerformanceStats> {
+    return {
+      ...this.stats,
+      pendingRequests: this.pendingCount,
+      queuedCalls: this.limiter?.depth ?? 0,
+      queueWait: this.queueWait.snapshot(),
+      averageResponseTime: this.latency.mean,
+      averageHeartbeatRtt: this.heartbeatLatency.mean,
+      latency: this.latency.snapshot(),
+      methods: this.methodStats.snapshot(),
+    };
   }
 
   /**
-   * 处理收到消息
+   * 清零性能统计（用于按时间窗口上报）
    */
-  private handleMessage(event: MessageEvent): void {
-    try {
-      const rawData = event.data as ArrayBuffer;
+  resetStats(): void {
+    this.stats = createCounters();
+    this.latency.clear();
+    this.heartbeatLatency.clear();
+    this.methodStats.clear();
+    this.queueWait.clear();
+  }
 
-      if (this.options.inboundMode === 'raw') {
-        this.log('Received raw message:', rawData);
-        this.stats.responsesReceived++;
-        this.emit(SocketEvent.Message, { decoded: false, rawData });
-        return;
-      }
+  /**
+   * 建立连接：已连接时立即完成，空闲时（lazy 未连接、连接已关闭且不再重连）发起连接
+   * 连接打开时完成，重连次数耗尽或连接关闭且不重连时拒绝
+   */
+  connect(): Promise<void> {
+    if (this.isConnected) {
+      return Promise.resolve();
+    }
 
-      const response = decode(new Uint8Array(rawData)) as JsonRpcResponse;
+    const opened = this.waitForConnection();
+    if (
+      this.state === ConnectionState.Closed &&
+      this.reconnectTimeoutId === null
+    ) {
+      this.openTransport();
+    }
+    return opened;
+  }
 
-      this.log('Received:', response);
+  /**
+   * 等待连接打开（不主动发起连接）
+   */
+  ready(): Promise<void> {
+    return this.waitForConnection();
+  }
 
-      // 统计
-      this.stats.responsesReceived++;
+  /**
+   * 等待连接打开，超过 timeout 毫秒以 JsonRpcTimeoutError 拒绝
+   */
+  whenConnected(timeout?: number): Promise<void> {
+    if (!timeout || this.isConnected) {
+      return this.waitForConnection();
+    }
 
-      // 检查是否为错误响应
-      if ('error' in response) {
-        this.stats.errors++;
-      }
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
 
-      // 处理流式响应
-      if (response.id !== null) {
-        const streamCallback = this.streamCallbacks.get(response.id);
-        if (streamCallback) {
-          streamCallback(response);
-          this.emit(SocketEvent.Message, {
-            decoded: true,
-            data: response,
-            rawData,
-          });
-          return;
-        }
+    return this.waitForConnection(controller.signal)
+      .catch((error) => {
+        throw controller.signal.aborted
+          ? new JsonRpcTimeoutError(timeout, { method: 'connect' })
+          : error;
+      })
+      .finally(() => clearTimeout(timeoutId));
+  }
 
-        // 处理普通响应
-        const metadata = this.pendingRequests.get(response.id);
-        if (metadata) {
-          clearTimeout(metadata.timeoutId);
-          this.pendingRequests.delete(response.id);
+  /**
+   * 开始连接：设置了端点解析函数时先解析端点
+   */
+  private openTransport(): void {
+    if (
+      this.resolving ||
+      this.transport?.readyState === ConnectionState.Connecting
+    ) {
+      return;
+    }
 
-          // 计算响应时间
-          const responseTime = Date.now() - metadata.timestamp;
-          this.updateResponseTime(responseTime);
+    const { url } = this.options;
+    if (typeof url !== 'function') {
+      this.createTransport();
+      return;
+    }
 
-          if ('error' in response) {
-            metadata.reject(
-              new Error(`${response.error.message} (${response.error.code})`),
-            );
-          } else {
-            metadata.resolve(response.result);
+    // 被取消（客户端关闭或切换端点）的解析结果不再使用
+    const token = {};
+    this.resolving = token;
+    Promise.resolve()
+      .then(url)
+      .then(
+        (urls) => {
+          if (this.resolving === token) {
+            this.resolving = null;
+            this.createTransport(urls);
           }
-        }
-      }
-
-      this.emit(SocketEvent.Message, {
-        decoded: true,
-        data: response,
-        rawData,
-      });
-    } catch (error) {
-      this.log('Failed to decode message:', error);
-    }
+        },
+        (error) => {
+          if (this.resolving === token) {
+            this.resolving = null;
+            this.log('warn', 'Failed to resolve endpoints', {
+              event: 'endpoint.resolve_failed',
+              error,
+            });
+            this.scheduleReconnect();
+          }
+        },
+      );
   }
 
   /**
-   * 处理连接关闭
+   * 选择端点，创建传输并开始连接
    */
-  private handleClose(event: CloseEvent): void {
-    this.log('Connection closed:', event.code, event.reason);
-    this.stopHeartbeat();
-    this.emit(SocketEvent.Close, event);
+  private createTransport(urls?: string | readonly string[]): void {
+    let selected: string | null = null;
 
-    // 拒绝所有待处理的请求
-    this.rejectAllPendingRequests(
-      new Error('Connection closed'),
-      JsonRpcErrorCode.ConnectionClosed,
-    );
+    try {
+      if (urls !== undefined) {
+        this.endpoints.update(toEndpointList(urls));
+      }
 
-    // 自动重连
-    if (this.options.autoReconnect) {
+      const previous = this.endpoints.current;
+      const url = this.endpoints.select();
+      selected = url;
+      this.changeEndpoint(url, previous);
+
+      const transport = this.options.transport(url, this.options.protocols);
+      this.transport = transport;
+      let opened = false;
+
+      // 被替换或强制断开的传输不再回调客户端
+      transport.open({
+        open: (event) => {
+          if (this.transport === transport) {
+            opened = true;
+            this.endpoints.succeed(url);
+            this.authorize(transport, event ?? new Event('open'));
+          }
+        },
+        message: (data) => {
+          if (this.transport === transport) {
+            this.handleMessage(data);
+          }
+        },
+        close: (event) => {
+          if (this.transport === transport) {
+            if (!opened) {
+              this.endpoints.fail(url);
+            }
+            this.handleClose(event);
+          }
+        },
+        error: (event) => {
+          if (this.transport === transport) {
+            this.handleError(event);
+          }
+        },
+      });
+    } catch (error) {
+      this.log('warn', 'Connection error', {
+        event: 'connection.error',
+        url: selected,
+        error,
+      });
+      if (selected !== null) {
+        this.endpoints.fail(selected);
+      }
       this.scheduleReconnect();
     }
   }
 
   /**
-   * 处理连接错误
+   * 选中的端点与此前不同时触发 endpointChanged
    */
-  private handleError(event: Event): void {
-    this.log('Connection error:', event);
-    this.emit(SocketEvent.Error, event);
+  private changeEndpoint(url: string, previous: string | null): void {
+    const reason =
+      this.switchReason ??
+      (previous !== null &&
+      this.endpoints.rank(url) < this.endpoints.rank(previous)
+        ? 'failback'
+        : 'failover');
+    this.switchReason = null;
+
+    if (previous === null || previous === url) {
+      return;
+    }
+
+    this.log('info', 'Switching endpoint', {
+      event: 'endpoint.changed',
+      url,
+      previous,
+      reason,
+    });
+    this.emit(SocketEvent.EndpointChanged, { url, previous, reason });
   }
 
   /**
-   * 安排重连
+   * 断开当前连接并立即重新选择端点连接
+   * 监听器、离线队列与可重新订阅的流保持不变，进行中的请求以连接关闭拒绝
    */
-  private scheduleReconnect(): void {
+  private switchEndpoint(reason: EndpointChangeReason): void {
     if (this.reconnectTimeoutId) {
-      return;
+      clearTimeout(this.reconnectTimeoutId);
+      this.reconnectTimeoutId = null;
     }
 
-    if (this.reconnectAttempts >= this.options.maxReconnectAttempts) {
-      this.log('Max reconnect attempts reached');
-      this.emit(SocketEvent.ReconnectFailed, undefined);
-      return;
+    this.resolving = null;
+    this.reconnectAttempts = 0;
+    this.switchReason = reason;
+
+    const transport = this.transport;
+    this.transport = null;
+    if (transport) {
+      const wasOpen = transport.readyState === ConnectionState.Open;
+      transport.close(1000, 'Switching endpoint');
+      if (wasOpen) {
+        this.dropConnection({
+          code: 1000,
+          reason: 'Switching endpoint',
+          wasClean: true,
+        });
+      }
     }
 
-    this.reconnectAttempts++;
-    this.stats.reconnectCount++;
-
-    this.log(
-      `Reconnecting in ${this.options.reconnectInterval}ms (attempt ${this.reconnectAttempts}/${this.options.maxReconnectAttempts})`,
-    );
-
-    this.emit(SocketEvent.Reconnecting, {
-      attempt: this.reconnectAttempts,
-      maxAttempts: this.options.maxReconnectAttempts,
-    });
-
-    this.reconnectTimeoutId = setTimeout(() => {
-      this.reconnectTimeoutId = null;
-      this.connect();
-    }, this.options.reconnectInterval);
+    this.openTransport();
   }
 
   /**
-   * 启动心跳
+   * 连接到备用端点时定时探测更高优先级的端点
    */
-  private startHeartbeat(): void {
+  private startFailback(): void {
+    const current = this.endpoints.current;
     if (
-      this.options.heartbeatInterval <= 0 ||
-      this.heartbeatIntervalId !== null
+      this.options.failbackInterval <= 0 ||
+      this.failbackIntervalId !== null ||
+      current === null ||
+      this.endpoints.rank(current) <= 0
     ) {
       return;
     }
 
-    this.heartbeatIntervalId = setInterval(() => {
-      if (this.isConnected) {
-        this.notify({
-          method: this.options.heartbeatMethod,
-        }).catch((error) => {
-          this.log('Heartbeat failed:', error);
-        });
-      }
-    }, this.options.heartbeatInterval);
+    this.failbackIntervalId = setInterval(
+      () => this.probePreferred(),
+      this.options.failbackInterval,
+    );
   }
 
   /**
-   * 停止心跳
+   * 停止探测
    */
-  private stopHeartbeat(): void {
-    if (this.heartbeatIntervalId) {
-      clearInterval(this.heartbeatIntervalId);
-      this.heartbeatIntervalId = null;
+  private stopFailback(): void {
+    if (this.failbackIntervalId !== null) {
+      clearInterval(this.failbackIntervalId);
+      this.failbackIntervalId = null;
     }
-  }
 
-  /**
-   * 拒绝所有待处理的请求
-   */
-  private rejectAllPendingRequests(error: Error, code: JsonRpcErrorCode): void {
-    for (const [id, metadata] of this.pendingRequests) {
-      clearTimeout(metadata.timeoutId);
-      metadata.reject(error);
+    if (this.probe) {
+      this.probe.close();
+      this.probe = null;
     }
-    this.pendingRequests.clear();
   }
 
   /**
-   * 更新响应时间统计
+   * 尝试连接更高优先级的端点，连接成功则切换回去（有进行中的请求时推迟到下次探测）
    */
-  private updateResponseTime(time: number): void {
-    this.responseTimes.push(time);
-    if (this.responseTimes.length > 100) {
-      this.responseTimes.shift();
+  private probePreferred(): void {
+    const url = this.endpoints.preferred();
+    if (!url || this.probe || this.pendingRequests.size > 0) {
+      return;
     }
-    this.stats.averageResponseTime =
-      this.responseTimes.reduce((sum, t) => sum + t, 0) /
-      this.responseTimes.length;
-  }
 
-  /**
-   * 发送请求
-   */
-  async request<TResult = unknown, TParams = unknown>(
-    options: RequestOptions<TParams>,
-  ): Promise<TResult> {
-    if (!this.isConnected) {
-      throw new Error('WebSocket is not connected');
+    let probe: Transport;
+    try {
+      probe = this.options.transport(url, this.options.protocols);
+    } catch (error) {
+      this.log('warn', 'Failback probe error', {
+        event: 'endpoint.probe_failed',
+        url,
+        error,
+      });
+      this.endpoints.fail(url);
+      return;
     }
 
-    if (this.options.inboundMode === 'raw') {
-      throw new Error('Inbound raw mode cannot resolve JSON-RPC responses.');
-    }
+    this.probe = probe;
+    probe.open({
+      open: () => {
+        if (this.probe !== probe) {
+          return;
+        }
+        this.probe = null;
+        probe.close(1000, 'Failback probe');
+        this.endpoints.succeed(url);
+        this.switchEndpoint('failback');
+      },
+      message: () => undefined,
+      close: () => {
+        if (this.probe === probe) {
+          this.probe = null;
+          this.endpoints.fail(url);
+        }
+      },
+      error: () => undefined,
+    });
+  }
 
-    if (this.options.outboundMode === 'raw') {
-      throw new Error('Outbound raw mode cannot send JSON-RPC requests.');
+  /**
+   * 执行鉴权握手，完成后才视为连接打开
+   * 失败时触发 authFailed 并以 4001 关闭连接，由重连策略决定是否重连
+   */
+  private authorize(transport: Transport, event: Event): void {
+    const { authenticate } = this.options;
+    if (!authenticate) {
+      this.handleOpen(event);
+      return;
     }
 
-    const id = options.id ?? generateUUID();
-    const request: JsonRpcRequest<TParams> = {
-      jsonrpc: '2.0',
-      method: options.method,
-      params: options.params,
-      id,
+    const context: AuthContext = {
+      attempt: this.reconnectAttempts,
+      reconnect: this.hasOpened,
+      endpoint: this.endpoints.current ?? '',
     };
+    this.authenticating = transport;
+
+    // 鉴权期间连接断开或被替换时忽略结果
+    Promise.resolve()
+      .then(() => authenticate(this.createAuthClient(), context))
+      .then(
+        () => {
+          if (this.authenticating === transport) {
+            this.authenticating = null;
+            this.handleOpen(event);
+          }
+        },
+        (error) => {
+          if (this.authenticating !== transport) {
+            return;
+          }
+          this.authenticating = null;
 
-    return new Promise<TResult>((resolve, reject) => {
-      const timeout = options.timeout ?? this.options.defaultTimeout;
-      const timeoutId = setTimeout(() => {
-        this.pendingRequests.delete(id);
-        this.stats.timeouts++;
-        reject(new Error(`Request timeout after ${timeout}ms`));
-      }, timeout);
+          const authError =
+            error instanceof Error ? error : new Error(String(error));
+          this.log('warn', 'Authentication failed', {
+            event: 'auth.failed',
+            error: authError,
+          });
+          this.emit(SocketEvent.AuthFailed, { error: authError, ...context });
+          transport.close(4001, 'Authentication failed');
+        },
+      );
+  }
 
-      this.pendingRequests.set(id, {
-        id,
-        timestamp: Date.now(),
-        timeoutId,
-        resolve: resolve as (value: unknown) => void,
-        reject,
-      });
+  /**
+   * 鉴权期间可用的受限客户端：调用直接发送，不受连接就绪限制
+   */
+  private createAuthClient(): AuthClient {
+    return {
+      request: <TResult>(options: RequestOptions) =>
+        this.requestOnce(options, true) as Promise<TResult>,
+      notify: (options) => this.sendNotification(options, true),
+    };
+  }
 
-      try {
-        const encoded = encode(request);
-        this.ws?.send(encoded);
-        this.stats.requestsSent++;
-        this.log('Sent request:', request);
-      } catch (error) {
-        clearTimeout(timeoutId);
-        this.pendingRequests.delete(id);
-        reject(error);
-      }
-    });
+  /**
+   * 是否可以发送调用：鉴权期间只允许受限客户端的调用
+   */
+  private canSend(duringAuth: boolean): boolean {
+    return (
+      this.isConnected ||
+      (duringAuth &&
+        this.authenticating === this.transport &&
+        this.isTransportOpen)
+    );
   }
 
   /**
-   * 发送通知（不需要响应）
+   * 处理连接打开
    */
-  async notify<TParams = unknown>(
-    options: NotificationOptions<TParams>,
-  ): Promise<void> {
-    if (!this.isConnected) {
-      throw new Error('WebSocket is not connected');
-    }
+  private handleOpen(event: Event): void {
+    this.log('info', 'Connection opened', {
+      event: 'connection.open',
+      url: this.endpoints.current,
+    });
+    const attempts = this.reconnectAttempts;
+    const downtime =
+      this.disconnectedAt === null ? null : Date.now() - this.disconnectedAt;
 
-    if (this.options.outboundMode === 'raw') {
-      throw new Error('Outbound raw mode cannot send JSON-RPC notifications.');
+    this.reconnectAttempts = 0;
+    this.hasOpened = true;
+    this.disconnectedAt = null;
+    this.startHeartbeat();
+    this.startFailback();
+
+    if (downtime !== null) {
+      this.resubscribeStreams(attempts);
     }
 
-    const notification: JsonRpcNotification<TParams> = {
-      jsonrpc: '2.0',
-      method: options.method,
-      params: options.params,
-    };
+    // 先发送离线期间排队的调用，保证顺序先于 open 监听器中的新调用
+    this.offlineQueue.flush();
+    this.settleConnectionWaiters();
+    this.emit(SocketEvent.Open, event);
 
-    const encoded = encode(notification);
-    this.ws?.send(encoded);
-    this.log('Sent notification:', notification);
+    if (downtime !== null) {
+      this.log('info', 'Reconnected', {
+        event: 'connection.reconnected',
+        attempts,
+        duration: downtime,
+      });
+      this.emit(SocketEvent.Reconnected, { attempts, downtime });
+    }
   }
 
   /**
-   * 创建流式请求
+   * 重连后重新发送仍然活跃的流式请求
    */
-  stream<TResult = unknown, TParams = unknown>(
-    options: StreamOptions<TParams>,
-    callback: (response: JsonRpcResponse<TResult>) => void,
-  ): StreamController {
-    if (!this.isConnected) {
-      throw new Error('WebSocket is not connected');
+  private resubscribeStreams(attempt: number): void {
+    for (const stream of [...this.streams.values()]) {
+      this.startStream(stream, attempt);
     }
+  }
 
-    if (this.options.inboundMode === 'raw') {
-      throw new Error('Inbound raw mode cannot resolve JSON-RPC responses.');
+  /**
+   * 以错误结束流式请求
+   */
+  private loseStreams(
+    reason: string,
+    predicate?: (stream: ClientStream) => boolean,
+  ): void {
+    for (const stream of [...this.streams.values()]) {
+      if (!predicate || predicate(stream)) {
+        this.streamSpans.get(stream.id)?.recordError(
+          new JsonRpcConnectionClosedError(reason, {
+            id: stream.id,
+            method: stream.request.method,
+          }),
+        );
+        stream.lose(reason);
+      }
     }
+  }
 
-    if (this.options.outboundMode === 'raw') {
-      throw new Error('Outbound raw mode cannot send JSON-RPC stream requests.');
-    }
+  /**
+   * 处理收到消息
+   */
+  private handleMessage(rawData: WireData): void {
+    this.stats.bytesReceived += byteLength(rawData);
 
-    const id = options.id ?? generateUUID();
-    const request: JsonRpcRequest<TParams> = {
-      jsonrpc: '2.0',
-      method: options.method,
-      params: options.params,
-      id,
-    };
+    try {
+      if (!this.inboundCodec) {
+        this.log('trace', 'Received raw message', {
+          event: 'message.received',
+          bytes: byteLength(rawData),
+        });
+        this.stats.responsesReceived++;
+        this.emit(SocketEvent.Message, { decoded: false, rawData });
+        return;
+      }
 
-    let closed = false;
+      const payload = this.inboundCodec.decode(rawData);
 
-    this.streamCallbacks.set(id, callback as never);
+      this.log('trace', 'Received message', {
+        event: 'message.received',
+        payload,
+      });
+
+      const messages = Array.isArray(payload) ? payload : [payload];
+      const inboundRequests: JsonRpcRequest[] = [];
+
+      for (const message of messages) {
+        // 跳过无效条目，不影响同一帧中的其他消息
+        if (typeof message !== 'object' || message === null) {
+          this.log('warn', 'Ignored invalid message', {
+            event: 'message.invalid',
+            payload: message,
+          });
+          continue;
+        }
+
+        if (!('method' in message)) {
+          this.handleResponse(message);
+        } else if (isJsonRpcRequest(message)) {
+          // 服务端发起的请求，处理完成后统一回复
+          inboundRequests.push(message);
+        } else {
+          this.handleNotification(message);
+        }
+
+        this.emit(SocketEvent.Message, {
+          decoded: true,
+          data: message,
+          rawData,
+        });
+      }
+
+      if (inboundRequests.length > 0) {
+        void this.respond(inboundRequests, Array.isArray(payload));
+      }
+    } catch (error) {
+      this.log('warn', 'Failed to decode message', {
+        event: 'message.decode_failed',
+        error,
+      });
+    }
+  }
+
+  /**
+   * 处理响应（普通请求或流式请求）
+   */
+  private handleResponse(response: JsonRpcResponse): void {
+    // 心跳应答只计入心跳统计
+    if (this.heartbeatProbe && response.id === this.heartbeatProbe.id) {
+      this.heartbeatProbe.settle();
+      return;
+    }
+
+    // 统计
+    this.stats.responsesReceived++;
+
+    // 检查是否为错误响应
+    if ('error' in response) {
+      this.stats.errors++;
+    }
+
+    if (response.id === null) {
+      return;
+    }
+
+    // 处理流式响应
+    const stream = this.streams.get(response.id);
+    if (stream) {
+      const span = this.streamSpans.get(response.id);
+      if ('error' in response) {
+        this.methodStats.error(stream.request.method);
+        span?.recordError(
+          createRemoteError(
+            response.error,
+            { id: response.id, method: stream.request.method },
+            this.options.errorClasses,
+          ),
+        );
+      } else {
+        span?.addEvent?.('message');
+      }
+      stream.deliver(response);
+      return;
+    }
+
+    // 处理普通响应
+    const metadata = this.pendingRequests.get(response.id);
+    if (metadata) {
+      clearTimeout(metadata.timeoutId);
+      this.pendingRequests.delete(response.id);
+
+      if ('error' in response && metadata.method !== undefined) {
+        this.methodStats.error(metadata.method);
+      }
+
+      // 计算响应时间
+      const responseTime = Date.now() - metadata.timestamp;
+      this.updateResponseTime(responseTime, metadata.method);
+      this.log('debug', 'Received response', {
+        event: 'response.received',
+        id: response.id,
+        method: metadata.method,
+        duration: responseTime,
+        error: 'error' in response ? response.error : undefined,
+      });
+
+      metadata.resolve(response);
+    }
+  }
+
+  /**
+   * 取出响应结果，错误响应转换为远程错误
+   */
+  private unwrapResponse(response: JsonRpcResponse, method: string): unknown {
+    if ('error' in response) {
+      throw createRemoteError(
+        response.error,
+        { id: response.id, method },
+        this.options.errorClasses,
+      );
+    }
+    return response.result;
+  }
+
+  /**
+   * 处理服务端通知
+   */
+  private handleNotification(notification: JsonRpcNotification): void {
+    const handlers = this.notificationHandlers.get(notification.method);
+    if (!handlers) {
+      return;
+    }
+
+    for (const handler of handlers) {
+      try {
+        handler(notification.params, { method: notification.method });
+      } catch (error) {
+        this.log('error', 'Notification handler failed', {
+          event: 'notification.handler_failed',
+          method: notification.method,
+          error,
+        });
+      }
+    }
+  }
+
+  /**
+   * 执行入站请求处理器并回复响应（批量请求以数组回复）
+   */
+  private async respond(
+    requests: JsonRpcRequest[],
+    batch: boolean,
+  ): Promise<void> {
+    const responses = await Promise.all(
+      requests.map((request) => this.invokeHandler(request)),
+    );
+
+    if (!this.isTransportOpen || this.options.outboundMode === 'raw') {
+      this.log('debug', 'Dropped response to inbound request', {
+        event: 'response.dropped',
+        payload: responses,
+      });
+      return;
+    }
+
+    try {
+      this.send(batch ? responses : responses[0]);
+      this.log('debug', 'Sent response', {
+        event: 'response.sent',
+        payload: responses,
+      });
+    } catch (error) {
+      this.log('warn', 'Failed to send response', {
+        event: 'response.send_failed',
+        error,
+      });
+    }
+  }
+
+  /**
+   * 调用已注册的方法处理器，生成响应
+   */
+  private async invokeHandler(
+    request: JsonRpcRequest,
+  ): Promise<JsonRpcResponse> {
+    const id = request.id ?? null;
+    const handler = this.methodHandlers.get(request.method);
+
+    if (!handler) {
+      return createErrorResponse(
+        id,
+        JsonRpcErrorCode.MethodNotFound,
+        `Method not found: ${request.method}`,
+      );
+    }
+
+    try {
+      const result = await handler(request.params, {
+        id,
+        method: request.method,
+      });
+      return createSuccessResponse(id, result ?? null);
+    } catch (error) {
+      return toErrorResponse(id, error);
+    }
+  }
+
+  /**
+   * 处理连接关闭
+   */
+  private handleClose(event: TransportCloseEvent): void {
+    this.dropConnection(event);
+
+    // 自动重连
+    if (this.options.autoReconnect) {
+      this.scheduleReconnect(event);
+    } else {
+      this.offlineQueue.rejectAll(
+        new JsonRpcQueueError('closed', 'Connection closed'),
+      );
+      this.loseStreams('Connection closed');
+      this.settleConnectionWaiters(
+        new JsonRpcConnectionClosedError('Connection closed'),
+      );
+    }
+  }
+
+  /**
+   * 连接断开：停止心跳与探测，结束依赖该连接的请求与流
+   */
+  private dropConnection(event: TransportCloseEvent): void {
+    this.log('info', 'Connection closed', {
+      event: 'connection.close',
+      code: event.code,
+      reason: event.reason,
+    });
+    this.authenticating = null;
+    this.stopHeartbeat();
+    this.stopFailback();
+
+    if (this.hasOpened && this.disconnectedAt === null) {
+      this.disconnectedAt = Date.now();
+    }
+
+    this.emit(SocketEvent.Close, event);
+
+    // 未开启重新订阅的流随连接断开结束
+    this.loseStreams('Connection closed', (stream) => !stream.resubscribe);
+
+    // 拒绝所有待处理的请求
+    this.rejectAllPendingRequests('Connection closed');
+  }
+
+  /**
+   * 处理连接错误
+   */
+  private handleError(event: Event): void {
+    this.log('warn', 'Connection error', {
+      event: 'connection.error',
+      url: this.endpoints.current,
+      error: event,
+    });
+    this.emit(SocketEvent.Error, event);
+  }
+
+  /**
+   * 安排重连
+   */
+  private scheduleReconnect(closeEvent?: TransportCloseEvent): void {
+    if (this.reconnectTimeoutId) {
+      return;
+    }
+
+    const attempt = this.reconnectAttempts + 1;
+    const delay = this.reconnectPolicy({ attempt, closeEvent });
+
+    if (delay === false) {
+      this.log('warn', 'Reconnect stopped by policy', {
+        event: 'reconnect.stopped',
+        code: closeEvent?.code,
+      });
+      this.offlineQueue.rejectAll(
+        new JsonRpcQueueError('reconnect_failed', 'Reconnect failed'),
+      );
+      this.loseStreams('Reconnect failed');
+      this.settleConnectionWaiters(
+        new JsonRpcConnectionClosedError('Reconnect failed'),
+      );
+      this.emit(SocketEvent.ReconnectFailed, undefined);
+      return;
+    }
+
+    const maxAttempts =
+      this.reconnectPolicy.maxAttempts ?? Number.POSITIVE_INFINITY;
+    this.reconnectAttempts = attempt;
+    this.stats.reconnectCount++;
+
+    this.log('info', 'Reconnecting', {
+      event: 'reconnect.scheduled',
+      attempt,
+      maxAttempts,
+      delay,
+    });
+
+    this.emit(SocketEvent.Reconnecting, { attempt, maxAttempts, delay });
+
+    this.reconnectTimeoutId = setTimeout(() => {
+      this.reconnectTimeoutId = null;
+      this.openTransport();
+    }, delay);
+  }
+
+  /**
+   * 启动心跳
+   */
+  private startHeartbeat(): void {
+    if (
+      this.options.heartbeatInterval <= 0 ||
+      this.heartbeatIntervalId !== null
+    ) {
+      return;
+    }
+
+    this.heartbeatIntervalId = setInterval(() => {
+      if (this.isConnected) {
+        this.beat();
+      }
+    }, this.options.heartbeatInterval);
+  }
+
+  /**
+   * 发送一次心跳
+   */
+  private beat(): void {
+    const { heartbeatMode, heartbeatMethod, heartbeatTimeout } = this.options;
+
+    // 心跳直接发送，不经过中间件，也不计入请求统计与追踪
+    if (heartbeatMode === 'notify') {
+      try {
+        this.send({ jsonrpc: '2.0', method: heartbeatMethod });
+      } catch (error) {
+        this.log('debug', 'Heartbeat failed', {
+          event: 'heartbeat.failed',
+          error,
+        });
+      }
+      return;
+    }
+
+    // 上一次心跳尚未应答时不叠加发送
+    if (this.heartbeatPending) {
+      return;
+    }
+
+    const transport = this.transport;
+    const sentAt = Date.now();
+    const roundTrip =
+      heartbeatMode === 'ping' && transport?.ping
+        ? transport.ping(heartbeatTimeout)
+        : this.sendHeartbeatRequest(heartbeatMethod, heartbeatTimeout);
+
+    this.heartbeatPending = true;
+    roundTrip
+      .then(
+        () => this.recordHeartbeat(Date.now() - sentAt),
+        (error) => {
+          // 连接已切换或已断开，结果不再有意义
+          if (transport !== this.transport || !this.isConnected) {
+            return;
+          }
+          this.missHeartbeat(error);
+        },
+      )
+      .finally(() => {
+        if (transport === this.transport) {
+          this.heartbeatPending = false;
+        }
+      });
+  }
+
+  /**
+   * 发送心跳请求并等待应答（错误响应同样说明对端存活），超时则拒绝
+   */
+  private sendHeartbeatRequest(method: string, timeout: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const id = generateUUID();
+      const finish = () => {
+        clearTimeout(timeoutId);
+        this.heartbeatProbe = null;
+      };
+      const timeoutId = setTimeout(() => {
+        finish();
+        reject(new JsonRpcTimeoutError(timeout, { id, method }));
+      }, timeout);
+
+      this.heartbeatProbe = {
+        id,
+        settle: () => {
+          finish();
+          resolve();
+        },
+        cancel: (error) => {
+          finish();
+          reject(error);
+        },
+      };
+
+      try {
+        this.send({ jsonrpc: '2.0', method, id });
+      } catch (error) {
+        this.heartbeatProbe.cancel(error as Error);
+      }
+    });
+  }
+
+  /**
+   * 记录心跳往返时间
+   */
+  private recordHeartbeat(rtt: number): void {
+    this.consecutiveMissedHeartbeats = 0;
+    this.stats.heartbeatRtt = rtt;
+    this.heartbeatLatency.record(rtt);
+  }
+
+  /**
+   * 记录丢失的心跳，连续丢失达到上限时强制断开
+   */
+  private missHeartbeat(error: unknown): void {
+    this.stats.missedHeartbeats++;
+    this.consecutiveMissedHeartbeats++;
+    this.log('warn', 'Heartbeat missed', {
+      event: 'heartbeat.missed',
+      missed: this.consecutiveMissedHeartbeats,
+      maxMissed: this.options.maxMissedHeartbeats,
+      error,
+    });
+
+    if (this.consecutiveMissedHeartbeats >= this.options.maxMissedHeartbeats) {
+      this.terminate(4000, 'Heartbeat timeout');
+    }
+  }
+
+  /**
+   * 强制断开失效连接：不等待关闭握手，直接按断开处理并进入重连流程
+   */
+  private terminate(code: number, reason: string): void {
+    const transport = this.transport;
+    if (!transport) {
+      return;
+    }
+
+    this.transport = null;
+
+    try {
+      if (transport.terminate) {
+        transport.terminate();
+      } else {
+        transport.close(code, reason);
+      }
+    } catch (error) {
+      this.log('warn', 'Failed to close dead connection', {
+        event: 'connection.terminate_failed',
+        error,
+      });
+    }
+
+    this.handleClose({ code, reason, wasClean: false });
+  }
+
+  /**
+   * 停止心跳
+   */
+  private stopHeartbeat(): void {
+    if (this.heartbeatIntervalId) {
+      clearInterval(this.heartbeatIntervalId);
+      this.heartbeatIntervalId = null;
+    }
+    this.heartbeatProbe?.cancel(
+      new JsonRpcConnectionClosedError('Heartbeat stopped'),
+    );
+    this.heartbeatPending = false;
+    this.consecutiveMissedHeartbeats = 0;
+  }
+
+  /**
+   * 拒绝所有待处理的请求
+   */
+  private rejectAllPendingRequests(reason: string): void {
+    for (const [id, metadata] of this.pendingRequests) {
+      clearTimeout(metadata.timeoutId);
+      metadata.reject(
+        new JsonRpcConnectionClosedError(reason, {
+          id,
+          method: metadata.method,
+        }),
+      );
+    }
+    this.pendingRequests.clear();
+  }
+
+  /**
+   * 更新响应时间统计
+   */
+  private updateResponseTime(time: number, method?: string): void {
+    this.latency.record(time);
+    if (method !== undefined) {
+      this.methodStats.latency(method, time);
+    }
+  }
+
+  /**
+   * 发送请求（声明契约后按方法名推导参数与结果类型）
+   */
+  request<M extends ApiMethod<TApi>>(
+    options: TypedRequestOptions<TApi, M>,
+  ): Promise<ApiResult<TApi, M>>;
+  request<TResult = unknown, TParams = unknown>(
+    options: UntypedOptions<TApi, RequestOptions<TParams>>,
+  ): Promise<TResult>;
+  async request(options: RequestOptions): Promise<unknown> {
+    const retry = resolveRetry(
+      options.method,
+      options.retry,
+      this.options.retryRules ?? [],
+    );
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.limited(options, true, () =>
+          this.requestOnce(options),
+        );
+      } catch (error) {
+        if (
+          !retry ||
+          attempt > retry.attempts ||
+          options.signal?.aborted ||
+          !isRetryable(retry, error, attempt)
+        ) {
+          throw error;
+        }
+
+        this.stats.retries++;
+        const delay = retryDelay(retry, attempt);
+        this.log('info', 'Retrying request', {
+          event: 'request.retry',
+          method: options.method,
+          attempt,
+          attempts: retry.attempts,
+          delay,
+        });
+        await sleep(delay, options.signal).catch(() => {
+          throw new JsonRpcAbortError('Request aborted', {
+            method: options.method,
+          });
+        });
+
+        // 重连期间等待连接恢复后再重试
+        if (!this.isConnected && this.isReconnecting()) {
+          await this.waitForConnection(options.signal);
+        }
+      }
+    }
+  }
+
+  /**
+   * 在并发额度与限速令牌内执行调用（未配置限制时直接执行），slot 为是否占用并发额度
+   */
+  private async limited<T>(
+    options: { method: string; priority?: number; signal?: AbortSignal },
+    slot: boolean,
+    call: () => Promise<T>,
+  ): Promise<T> {
+    if (!this.limiter) {
+      return call();
+    }
+
+    const { method, priority = 0, signal } = options;
+    const queuedAt = Date.now();
+    let release: () => void;
+    try {
+      release = await this.limiter.acquire(method, { slot, priority, signal });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new JsonRpcAbortError('Request aborted', { method });
+      }
+      throw error;
+    }
+
+    const wait = Date.now() - queuedAt;
+    this.queueWait.record(wait);
+    if (wait > 0) {
+      this.log('debug', 'Released queued call', {
+        event: 'call.dequeued',
+        method,
+        duration: wait,
+      });
+    }
+
+    try {
+      return await call();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * 发送单次请求（不重试），duringAuth 为鉴权客户端发起的调用
+   */
+  private async requestOnce(
+    options: RequestOptions,
+    duringAuth = false,
+  ): Promise<unknown> {
+    if (this.options.inboundMode === 'raw') {
+      throw new Error('Inbound raw mode cannot resolve JSON-RPC responses.');
+    }
+
+    if (this.options.outboundMode === 'raw') {
+      throw new Error('Outbound raw mode cannot send JSON-RPC requests.');
+    }
+
+    if (options.signal?.aborted) {
+      throw new JsonRpcAbortError('Request aborted', {
+        method: options.method,
+      });
+    }
+
+    if (!this.canSend(duringAuth)) {
+      if (!duringAuth && this.shouldQueue()) {
+        return this.enqueue(() => this.requestOnce(options), options.signal);
+      }
+      throw new JsonRpcConnectionClosedError('WebSocket is not connected');
+    }
+
+    const id = options.id ?? generateUUID();
+    const request: JsonRpcRequest = {
+      jsonrpc: '2.0',
+      method: options.method,
+      params: options.params,
+      id,
+    };
+
+    const context: MiddlewareContext = {
+      kind: 'request',
+      message: request,
+      state: {},
+    };
+
+    await this.runMiddleware(context, async () => {
+      context.response = await this.transmit(
+        context.message as JsonRpcRequest,
+        options,
+      );
+    });
+
+    if (!context.response) {
+      throw new Error(`Middleware produced no response for ${options.method}`);
+    }
+
+    return this.unwrapResponse(context.response, options.method);
+  }
+
+  /**
+   * 发送请求并等待原始响应
+   */
+  private transmit(
+    request: JsonRpcRequest,
+    options: RequestOptions,
+  ): Promise<JsonRpcResponse> {
+    const id = request.id as string | number;
+    const span = this.startSpan('request', request);
+
+    return new Promise<JsonRpcResponse>((resolve, reject) => {
+      this.trackRequest(
+        id,
+        { ...options, method: request.method },
+        (response) => {
+          this.endSpan(span, request, response);
+          resolve(response);
+        },
+        (error) => {
+          this.endSpan(span, request, error);
+          reject(error);
+        },
+      );
+
+      try {
+        this.send(request);
+        this.stats.requestsSent++;
+        this.methodStats.sent(request.method);
+        this.log('debug', 'Sent request', {
+          event: 'request.sent',
+          id,
+          method: request.method,
+          payload: request,
+        });
+      } catch (error) {
+        this.untrackRequest(id)?.reject(error as Error);
+      }
+    });
+  }
+
+  /**
+   * 创建 span 并将追踪上下文注入消息（未配置 tracer 时返回 null）
+   */
+  private startSpan(
+    kind: SpanKind,
+    message: JsonRpcRequest | JsonRpcNotification,
+  ): Span | null {
+    const { tracer, traceField } = this.options;
+    if (!tracer) {
+      return null;
+    }
+
+    try {
+      const id = 'id' in message ? (message.id ?? undefined) : undefined;
+      const span = tracer.startSpan(message.method, {
+        kind,
+        method: message.method,
+        id,
+      });
+      const carrier: Record<string, string> = {};
+      span.inject(carrier);
+      if (Object.keys(carrier).length > 0) {
+        (message as unknown as Record<string, unknown>)[traceField] = carrier;
+      }
+      return span;
+    } catch (error) {
+      // 追踪失败不影响调用
+      this.log('warn', 'Failed to start span', {
+        event: 'trace.span_failed',
+        method: message.method,
+        error,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * 结束 span：错误响应或调用失败时先记录错误
+   */
+  private endSpan(
+    span: Span | null,
+    message: JsonRpcRequest | JsonRpcNotification,
+    outcome?: JsonRpcResponse | Error,
+  ): void {
+    if (!span) {
+      return;
+    }
+
+    if (outcome instanceof Error) {
+      span.recordError(outcome);
+    } else if (outcome && 'error' in outcome) {
+      span.recordError(
+        createRemoteError(
+          outcome.error,
+          { id: outcome.id ?? undefined, method: message.method },
+          this.options.errorClasses,
+        ),
+      );
+    }
+    span.end();
+  }
+
+  /**
+   * 按注册顺序执行中间件，terminal 为实际发送
+   */
+  private runMiddleware(
+    context: MiddlewareContext,
+    terminal: () => Promise<void>,
+  ): Promise<void> {
+    return composeMiddleware([...this.middlewares])(context, terminal);
+  }
+
+  /**
+   * 创建批量请求：收集多个请求与通知，以单个数组帧发送
+   */
+  batch(): BatchBuilder {
+    const entries: BatchEntry[] = [];
+    let sent = false;
+
+    const builder: BatchBuilder = {
+      request: <TResult = unknown, TParams = unknown>(
+        options: RequestOptions<TParams>,
+      ): Promise<TResult> => {
+        if (sent) {
+          return Promise.reject(new Error('Batch has already been sent'));
+        }
+
+        return new Promise<TResult>((resolve, reject) => {
+          entries.push({
+            message: {
+              jsonrpc: '2.0',
+              method: options.method,
+              params: options.params,
+              id: options.id ?? generateUUID(),
+            },
+            timeout: options.timeout,
+            signal: options.signal,
+            resolve: resolve as (value: unknown) => void,
+            reject,
+          });
+        });
+      },
+      notify: <TParams = unknown>(options: NotificationOptions<TParams>) => {
+        if (sent) {
+          throw new Error('Batch has already been sent');
+        }
+
+        entries.push({
+          message: {
+            jsonrpc: '2.0',
+            method: options.method,
+            params: options.params,
+          },
+        });
+        return builder;
+      },
+      get size() {
+        return entries.length;
+      },
+      send: async () => {
+        if (sent) {
+          throw new Error('Batch has already been sent');
+        }
+
+        if (entries.length === 0) {
+          throw new Error('Batch is empty');
+        }
+        sent = true;
+
+        if (!this.isConnected && this.shouldQueue()) {
+          return this.enqueue(() => this.sendBatch(entries)).catch((error) =>
+            rejectBatch(entries, error),
+          );
+        }
+        await this.sendBatch(entries);
+      },
+    };
+
+    return builder;
+  }
+
+  /**
+   * 发送批量请求：每个条目分别经过中间件，全部到达最内层后合并为一帧发送，请求按 id 单独结算
+   */
+  private async sendBatch(entries: BatchEntry[]): Promise<void> {
+    if (this.options.inboundMode === 'raw') {
+      rejectBatch(
+        entries,
+        new Error('Inbound raw mode cannot resolve JSON-RPC responses.'),
+      );
+    }
+
+    if (this.options.outboundMode === 'raw') {
+      rejectBatch(
+        entries,
+        new Error('Outbound raw mode cannot send JSON-RPC batches.'),
+      );
+    }
+
+    // 每个条目各取一个限速令牌（整批一次发送，不占用并发额度）
+    if (this.limiter) {
+      try {
+        for (const entry of entries) {
+          await this.limited(
+            { method: entry.message.method },
+            false,
+            async () => undefined,
+          );
+        }
+      } catch (error) {
+        rejectBatch(entries, error);
+      }
+    }
+
+    if (!this.isConnected) {
+      rejectBatch(
+        entries,
+        new JsonRpcConnectionClosedError('WebSocket is not connected'),
+      );
+    }
+
+    const slots: Array<BatchSlot | null> = entries.map(() => null);
+    const arrivals: Promise<void>[] = [];
+    const chains = entries.map((entry, index) => {
+      const context: MiddlewareContext = {
+        kind: entry.resolve ? 'request' : 'notification',
+        message: entry.message,
+        state: {},
+      };
+
+      let arrive!: () => void;
+      arrivals.push(
+        new Promise<void>((resolve) => {
+          arrive = resolve;
+        }),
+      );
+
+      // 中间件短路或抛出错误时该条目不发送
+      return this.runMiddleware(
+        context,
+        () =>
+          new Promise<void>((resolve, reject) => {
+            slots[index] = {
+              message: context.message,
+              entry,
+              settle: (response) => {
+                context.response = response;
+                resolve();
+              },
+              fail: reject,
+            };
+            arrive();
+          }),
+      )
+        .then(() => {
+          if (!entry.resolve) {
+            return;
+          }
+          if (!context.response) {
+            throw new Error(
+              `Middleware produced no response for ${entry.message.method}`,
+            );
+          }
+          entry.resolve(
+            this.unwrapResponse(context.response, entry.message.method),
+          );
+        })
+        .then(
+          () => null,
+          (error: unknown) => {
+            // 通知的错误先保存，避免等待其他条目时成为未处理的拒绝
+            if (!entry.reject) {
+              return { error };
+            }
+            entry.reject(error as Error);
+            return null;
+          },
+        )
+        .finally(() => arrive());
+    });
+
+    await Promise.all(arrivals);
+    this.transmitBatch(slots.filter((slot) => slot !== null));
+
+    // 通知没有单独的结算回调，其中间件错误由 send() 抛出（请求各自结算，不在此等待响应）
+    const failures = await Promise.all(
+      chains.filter((_, index) => !entries[index].resolve),
+    );
+    const failure = failures.find((result) => result !== null);
+    if (failure) {
+      throw failure.error;
+    }
+  }
 
+  /**
+   * 合并发送经过中间件的批量条目
+   */
+  private transmitBatch(slots: BatchSlot[]): void {
+    if (slots.length === 0) {
+      return;
+    }
+
+    if (!this.isConnected) {
+      const error = new JsonRpcConnectionClosedError(
+        'WebSocket is not connected',
+      );
+      for (const slot of slots) {
+        slot.fail(error);
+      }
+      return;
+    }
+
+    const requestIds: Array<string | number> = [];
+    const notifications: Array<[BatchSlot, Span | null]> = [];
+    for (const slot of slots) {
+      const { message, entry } = slot;
+      if ('id' in message && entry.resolve) {
+        const id = message.id as string | number;
+        const span = this.startSpan('request', message);
+        this.trackRequest(
+          id,
+          { ...entry, method: message.method },
+          (response) => {
+            this.endSpan(span, message, response);
+            slot.settle(response);
+          },
+          (error) => {
+            this.endSpan(span, message, error);
+            slot.fail(error);
+          },
+        );
+        requestIds.push(id);
+      } else {
+        notifications.push([slot, this.startSpan('notification', message)]);
+      }
+    }
+
+    const messages = slots.map((slot) => slot.message);
     try {
-      const encoded = encode(request);
-      this.ws?.send(encoded);
-      this.stats.requestsSent++;
-      this.log('Sent stream request:', request);
+      this.send(messages);
     } catch (error) {
-      this.streamCallbacks.delete(id);
-      throw error;
+      for (const id of requestIds) {
+        this.untrackRequest(id)?.reject(error as Error);
+      }
+      for (const [slot, span] of notifications) {
+        this.endSpan(span, slot.message, error as Error);
+        slot.fail(error as Error);
+      }
+      return;
     }
 
-    return {
+    this.stats.requestsSent += requestIds.length;
+    for (const message of messages) {
+      this.methodStats.sent(message.method);
+    }
+    this.log('debug', 'Sent batch', {
+      event: 'batch.sent',
+      size: messages.length,
+      payload: messages,
+    });
+
+    for (const [slot, span] of notifications) {
+      this.endSpan(span, slot.message);
+      slot.settle();
+    }
+  }
+
+  /**
+   * 登记待处理请求，启动超时计时并监听中止信号
+   */
+  private trackRequest(
+    id: string | number,
+    options: { method: string; timeout?: number; signal?: AbortSignal },
+    resolve: (response: JsonRpcResponse) => void,
+    reject: (error: Error) => void,
+  ): void {
+    const { method, signal } = options;
+    const ms = options.timeout ?? this.options.defaultTimeout;
+
+    const onAbort = () => {
+      this.untrackRequest(id)?.reject(
+        new JsonRpcAbortError('Request aborted', { id, method }),
+      );
+      this.sendCancel(id);
+    };
+
+    const timeoutId = setTimeout(() => {
+      this.pendingRequests.delete(id);
+      this.stats.timeouts++;
+      this.methodStats.timeout(method);
+      this.log('warn', 'Request timed out', {
+        event: 'request.timeout',
+        id,
+        method,
+        duration: ms,
+      });
+      metadata.reject(new JsonRpcTimeoutError(ms, { id, method }));
+      this.sendCancel(id);
+    }, ms);
+
+    const metadata: RequestMetadata = {
       id,
-      close: () => {
-        if (!closed) {
-          closed = true;
-          this.streamCallbacks.delete(id);
-          this.log('Stream closed:', id);
+      method,
+      timestamp: Date.now(),
+      timeoutId,
+      resolve: (response) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(response);
+      },
+      reject: (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    };
+
+    this.pendingRequests.set(id, metadata);
+
+    // 批量请求可能在加入后、发送前已被中止
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+  }
+
+  /**
+   * 移除待处理请求并清除超时计时
+   */
+  private untrackRequest(id: string | number): RequestMetadata | undefined {
+    const metadata = this.pendingRequests.get(id);
+    if (metadata) {
+      clearTimeout(metadata.timeoutId);
+      this.pendingRequests.delete(id);
+    }
+    return metadata;
+  }
+
+  /**
+   * 通知服务端取消请求或流（需配置 cancelMethod）
+   */
+  private sendCancel(id: string | number): void {
+    if (
+      !this.options.cancelMethod ||
+      !this.isTransportOpen ||
+      this.options.outboundMode === 'raw'
+    ) {
+      return;
+    }
+
+    const notification: JsonRpcNotification = {
+      jsonrpc: '2.0',
+      method: this.options.cancelMethod,
+      params: this.options.cancelParams(id),
+    };
+
+    try {
+      this.send(notification);
+      this.log('debug', 'Sent cancel notification', {
+        event: 'cancel.sent',
+        id,
+        payload: notification,
+      });
+    } catch (error) {
+      this.log('warn', 'Failed to send cancel notification', {
+        event: 'cancel.send_failed',
+        id,
+        error,
+      });
+    }
+  }
+
+  /**
+   * 是否正在连接或等待重连
+   */
+  private isReconnecting(): boolean {
+    return (
+      this.state === ConnectionState.Connecting ||
+      this.reconnectTimeoutId !== null
+    );
+  }
+
+  /**
+   * 是否应将调用放入离线队列（连接中或等待重连）
+   */
+  private shouldQueue(): boolean {
+    return this.options.queueWhileDisconnected && this.isReconnecting();
+  }
+
+  /**
+   * 等待连接打开，重连失败或客户端关闭时拒绝
+   */
+  private waitForConnection(signal?: AbortSignal): Promise<void> {
+    if (this.isConnected) {
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.connectionWaiters.delete(waiter);
+        reject(new JsonRpcAbortError('Request aborted'));
+      };
+      const waiter = {
+        resolve: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        reject: (error: Error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+
+      this.connectionWaiters.add(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * 结算所有等待连接的调用
+   */
+  private settleConnectionWaiters(error?: Error): void {
+    const waiters = [...this.connectionWaiters];
+    this.connectionWaiters.clear();
+
+    for (const waiter of waiters) {
+      if (error) {
+        waiter.reject(error);
+      } else {
+        waiter.resolve();
+      }
+    }
+  }
+
+  /**
+   * 将调用放入离线队列，连接打开后执行
+   */
+  private enqueue<T>(call: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        dequeue();
+        reject(new JsonRpcAbortError('Request aborted'));
+      };
+
+      const dequeue = this.offlineQueue.enqueue({
+        run: () => {
+          signal?.removeEventListener('abort', onAbort);
+          call().then(resolve, reject);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      });
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.log('debug', 'Queued call while disconnected', {
+        event: 'call.queued',
+      });
+    });
+  }
+
+  /**
+   * 发送通知（不需要响应）
+   */
+  notify<M extends ApiMethod<TApi>>(
+    options: TypedNotificationOptions<TApi, M>,
+  ): Promise<void>;
+  notify<TParams = unknown>(
+    options: UntypedOptions<TApi, NotificationOptions<TParams>>,
+  ): Promise<void>;
+  notify(options: NotificationOptions): Promise<void> {
+    return this.limited(options, false, () => this.sendNotification(options));
+  }
+
+  /**
+   * 经中间件发送通知，duringAuth 为鉴权客户端发起的调用
+   */
+  private async sendNotification(
+    options: NotificationOptions,
+    duringAuth = false,
+  ): Promise<void> {
+    if (this.options.outboundMode === 'raw') {
+      throw new Error('Outbound raw mode cannot send JSON-RPC notifications.');
+    }
+
+    if (!this.canSend(duringAuth)) {
+      if (!duringAuth && this.shouldQueue()) {
+        return this.enqueue(() => this.sendNotification(options));
+      }
+      throw new JsonRpcConnectionClosedError('WebSocket is not connected');
+    }
+
+    const context: MiddlewareContext = {
+      kind: 'notification',
+      message: {
+        jsonrpc: '2.0',
+        method: options.method,
+        params: options.params,
+      },
+      state: {},
+    };
+
+    await this.runMiddleware(context, async () => {
+      const { message } = context;
+      const span = this.startSpan('notification', message);
+      try {
+        this.send(message);
+      } catch (error) {
+        this.endSpan(span, message, error as Error);
+        throw error;
+      }
+      this.endSpan(span, message);
+      this.methodStats.sent(message.method);
+      this.log('debug', 'Sent notification', {
+        event: 'notification.sent',
+        method: message.method,
+        payload: message,
+      });
+    });
+  }
+
+  /**
+   * 创建流式请求
+   */
+  stream<M extends ApiMethod<TApi>>(
+    options: TypedStreamOptions<TApi, M>,
+    callback: (response: JsonRpcResponse<ApiResult<TApi, M>>) => void,
+  ): StreamController;
+  stream<TResult = unknown, TParams = unknown>(
+    options: UntypedOptions<TApi, StreamOptions<TParams>>,
+    callback: (response: JsonRpcResponse<TResult>) => void,
+  ): StreamController;
+  stream(
+    options: StreamOptions,
+    callback: (response: JsonRpcResponse<never>) => void,
+  ): StreamController {
+    if (this.options.inboundMode === 'raw') {
+      throw new Error('Inbound raw mode cannot resolve JSON-RPC responses.');
+    }
+
+    if (this.options.outboundMode === 'raw') {
+      throw new Error(
+        'Outbound raw mode cannot send JSON-RPC stream requests.',
+      );
+    }
+
+    if (options.signal?.aborted) {
+      throw new JsonRpcAbortError('Stream aborted', {
+        method: options.method,
+      });
+    }
+
+    const queued = !this.isConnected && this.shouldQueue();
+    if (!this.isConnected && !queued) {
+      throw new JsonRpcConnectionClosedError('WebSocket is not connected');
+    }
+
+    const id = options.id ?? generateUUID();
+    const request: JsonRpcRequest = {
+      jsonrpc: '2.0',
+      method: options.method,
+      params: options.params,
+      id,
+    };
+
+    let dequeue: (() => void) | null = null;
+    const stream = new ClientStream(
+      request,
+      callback as never,
+      options.resubscribe ?? true,
+      () => {
+        dequeue?.();
+        options.signal?.removeEventListener('abort', onAbort);
+        // 已发送的流在关闭时通知服务端停止推送
+        if (this.streams.delete(id)) {
+          this.sendCancel(id);
+        }
+        this.streamSpans.get(id)?.end();
+        this.streamSpans.delete(id);
+        this.log('debug', 'Stream closed', { event: 'stream.closed', id });
+      },
+    );
+    const onAbort = () => stream.close();
+
+    if (queued) {
+      dequeue = this.offlineQueue.enqueue({
+        run: () => {
+          dequeue = null;
+          this.startStream(stream);
+        },
+        // 排队的流被队列拒绝时，以错误响应结束
+        reject: (error) => stream.lose(error.message),
+      });
+      this.log('debug', 'Queued stream request while disconnected', {
+        event: 'stream.queued',
+        id: stream.id,
+        method: request.method,
+        payload: request,
+      });
+    } else {
+      this.startStream(stream);
+    }
+
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    return stream;
+  }
+
+  /**
+   * 创建可异步迭代的流式请求
+   */
+  streamIterator<M extends ApiMethod<TApi>>(
+    options: TypedStreamIteratorOptions<TApi, M>,
+  ): StreamIterator<ApiResult<TApi, M>>;
+  streamIterator<TResult = unknown, TParams = unknown>(
+    options: UntypedOptions<TApi, StreamIteratorOptions<TParams, TResult>>,
+  ): StreamIterator<TResult>;
+  streamIterator(
+    options: StreamIteratorOptions<unknown, never>,
+  ): StreamIterator {
+    const {
+      isEnd = (result: unknown) => result === null,
+      idleTimeout = 0,
+      bufferSize = 100,
+      overflow = 'error',
+      ...streamOptions
+    } = options;
+    const id = options.id ?? generateUUID();
+    const context = { id, method: options.method };
+    const iterator = new ClientStreamIterator<unknown>({
+      bufferSize,
+      overflow,
+      idleTimeout,
+      context,
+      signal: options.signal,
+    });
+
+    // 迭代器默认不重新订阅：重连前后的数据无法区分，断开时以错误结束
+    const controller = this.stream(
+      {
+        ...streamOptions,
+        id,
+        resubscribe: streamOptions.resubscribe ?? false,
+      } as never,
+      (response: JsonRpcResponse) => {
+        if (!('error' in response)) {
+          if (isEnd(response.result as never)) {
+            iterator.end();
+          } else {
+            iterator.push(response.result);
+          }
+        } else if (response.error.code === JsonRpcErrorCode.ConnectionClosed) {
+          iterator.fail(
+            new JsonRpcConnectionClosedError(response.error.message, context),
+          );
+        } else {
+          iterator.fail(
+            createRemoteError(
+              response.error,
+              context,
+              this.options.errorClasses,
+            ),
+          );
+        }
+      },
+    );
+
+    iterator.attach(controller);
+
+    return iterator;
+  }
+
+  /**
+   * 登记流式请求并经中间件发送（重连后重新订阅时传入 attempt，再次经过中间件）
+   */
+  private startStream(stream: ClientStream, attempt?: number): void {
+    this.streams.set(stream.id, stream);
+
+    const context: MiddlewareContext = {
+      kind: 'stream',
+      message: { ...stream.request },
+      state: {},
+    };
+
+    this.runMiddleware(context, async () => {
+      // 重新订阅时结束上一次订阅的 span
+      this.streamSpans.get(stream.id)?.end();
+      this.streamSpans.delete(stream.id);
+      const span = this.startSpan('stream', context.message);
+      if (span) {
+        this.streamSpans.set(stream.id, span);
+      }
+
+      this.send(context.message);
+      this.stats.requestsSent++;
+      this.methodStats.sent(context.message.method);
+      this.log('debug', 'Sent stream request', {
+        event: 'stream.sent',
+        id: stream.id,
+        method: context.message.method,
+        payload: context.message,
+      });
+    }).then(
+      () => {
+        if (attempt !== undefined) {
+          stream.resubscribed(attempt);
         }
       },
-      get closed() {
-        return closed;
+      (error) => {
+        stream.lose(
+          `Failed to send stream request: ${error instanceof Error ? error.message : String(error)}`,
+        );
       },
+    );
+  }
+
+  /**
+   * 创建方法代理：api.user.login(params) 等价于 request({ method: 'user.login', params })
+   */
+  proxy(): ApiProxy<TApi> {
+    return createApiProxy((method, params, options) =>
+      this.request({ ...options, method, params } as never),
+    ) as ApiProxy<TApi>;
+  }
+
+  /**
+   * 注册中间件（洋葱模型），返回移除函数
+   */
+  use(middleware: Middleware): () => void {
+    this.middlewares.push(middleware);
+
+    return () => {
+      const index = this.middlewares.indexOf(middleware);
+      if (index !== -1) {
+        this.middlewares.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * 注册入站请求处理器（服务端调用客户端），返回取消注册函数
+   */
+  handle<TParams = unknown, TResult = unknown>(
+    method: string,
+    handler: MethodHandler<TParams, TResult>,
+  ): () => void {
+    this.methodHandlers.set(method, handler as MethodHandler);
+
+    return () => {
+      if (this.methodHandlers.get(method) === handler) {
+        this.methodHandlers.delete(method);
+      }
+    };
+  }
+
+  /**
+   * 监听服务端通知，返回取消监听函数
+   */
+  onNotification<TParams = unknown>(
+    method: string,
+    handler: NotificationHandler<TParams>,
+  ): () => void {
+    let handlers = this.notificationHandlers.get(method);
+    if (!handlers) {
+      handlers = new Set();
+      this.notificationHandlers.set(method, handlers);
+    }
+    handlers.add(handler as NotificationHandler);
+
+    return () => {
+      handlers.delete(handler as NotificationHandler);
+      if (
+        handlers.size === 0 &&
+        this.notificationHandlers.get(method) === handlers
+      ) {
+        this.notificationHandlers.delete(method);
+      }
     };
   }
 
@@ -451,10 +2313,14 @@ export class JsonRpcWebSocketClient extends EventEmitter<SocketEvents> {
    */
   sendRaw(data: RawOutboundData): void {
     if (!this.isConnected) {
-      throw new Error('WebSocket is not connected');
+      throw new JsonRpcConnectionClosedError('WebSocket is not connected');
     }
-    this.ws?.send(data);
-    this.log('Sent raw data:', data);
+    this.transport?.send(data);
+    this.stats.bytesSent += byteLength(data);
+    this.log('trace', 'Sent raw data', {
+      event: 'message.sent',
+      bytes: byteLength(data),
+    });
   }
 
   /**
@@ -468,38 +2334,80 @@ export class JsonRpcWebSocketClient extends EventEmitter<SocketEvents> {
       this.reconnectTimeoutId = null;
     }
 
+    this.resolving = null;
+    this.authenticating = null;
     this.stopHeartbeat();
+    this.stopFailback();
 
-    if (this.ws) {
-      this.ws.close(code, reason);
-      this.ws = null;
+    if (this.transport) {
+      this.log('info', 'Connection closed by client', {
+        event: 'connection.close',
+        code,
+        reason,
+      });
+      this.transport.close(code, reason);
+      this.transport = null;
     }
 
-    this.rejectAllPendingRequests(
-      new Error('Connection closed by client'),
-      JsonRpcErrorCode.ConnectionClosed,
+    this.rejectAllPendingRequests('Connection closed by client');
+
+    this.limiter?.rejectAll(
+      new JsonRpcConnectionClosedError('Connection closed by client'),
+    );
+    this.offlineQueue.rejectAll(
+      new JsonRpcQueueError('closed', 'Connection closed by client'),
+    );
+    this.loseStreams('Connection closed by client');
+    this.settleConnectionWaiters(
+      new JsonRpcConnectionClosedError('Connection closed by client'),
     );
 
     this.removeAllListeners();
   }
 
   /**
-   * 更换 URL 并重连
+   * 更换 URL 并立即重连（监听器、离线队列与可重新订阅的流保持不变）
    */
   reconnectToUrl(url: string): void {
-    this.close();
     this.options.url = url;
-    this.options.autoReconnect = true;
-    this.reconnectAttempts = 0;
-    this.connect();
+    this.endpoints.update([url]);
+    this.switchEndpoint('manual');
+  }
+
+  /**
+   * 编码并发送 JSON-RPC 消息
+   */
+  private send(message: JsonRpcMessage | JsonRpcBatch): void {
+    if (this.outboundCodec && this.transport) {
+      const data = this.outboundCodec.encode(message);
+      this.transport.send(data);
+      this.stats.bytesSent += byteLength(data);
+    }
   }
 
   /**
-   * 调试日志
+   * 监听器异常交给日志器（未配置日志器时沿用 console.error）
    */
-  private log(...args: unknown[]): void {
-    if (this.options.debug) {
-      console.log('[JsonRpcWebSocket]', ...args);
+  protected onListenerError(event: keyof SocketEvents, error: unknown): void {
+    if (this.logger) {
+      this.log('error', 'Event listener failed', {
+        event: 'listener.failed',
+        listener: event,
+        error,
+      });
+    } else {
+      super.onListenerError(event, error);
+    }
+  }
+
+  /**
+   * 输出结构化日志（payload 与 error 按 redact 路径脱敏）
+   */
+  private log(level: LogLevel, message: string, fields: LogFields): void {
+    if (!this.logger) {
+      return;
     }
+
+    this.logger[level](message, redactFields(fields, this.options.redact));
   }
 }
@@ -0,0 +1,90 @@
+/**
+ * 编解码器注册表
+ * 内置 messagepack（二进制帧）、json（文本帧）与 auto（按帧类型解码）
+ */
+
+import { decode, encode } from '../pack';
+import type { Codec, WireData } from '../types/codec';
+import type { JsonRpcBatch, JsonRpcMessage } from '../types/jsonrpc';
+
+const textDecoder = new TextDecoder();
+
+function toText(data: WireData): string {
+  return typeof data === 'string' ? data : textDecoder.decode(data);
+}
+
+function toBytes(data: WireData): Uint8Array {
+  return typeof data === 'string'
+    ? new TextEncoder().encode(data)
+    : new Uint8Array(data);
+}
+
+/**
+ * MessagePack 编解码器
+ */
+export const messagePackCodec: Codec = {
+  name: 'messagepack',
+  encode: (message) => encode(message),
+  decode: (data) => decode(toBytes(data)) as JsonRpcMessage | JsonRpcBatch,
+};
+
+/**
+ * JSON 文本编解码器
+ */
+export const jsonCodec: Codec = {
+  name: 'json',
+  encode: (message) => JSON.stringify(message),
+  decode: (data) => JSON.parse(toText(data)) as JsonRpcMessage | JsonRpcBatch,
+};
+
+/**
+ * 自动编解码器：文本帧按 JSON 解码，二进制帧按 MessagePack 解码（编码使用 MessagePack）
+ */
+export const autoCodec: Codec = {
+  name: 'auto',
+  encode: messagePackCodec.encode,
+  decode: (data) =>
+    typeof data === 'string'
+      ? jsonCodec.decode(data)
+      : messagePackCodec.decode(data),
+};
+
+const codecs = new Map<string, Codec>(
+  [messagePackCodec, jsonCodec, autoCodec].map((codec) => [codec.name, codec]),
+);
+
+/**
+ * 注册自定义编解码器（同名覆盖），注册后可按名称用作 inboundMode / outboundMode
+ */
+export function registerCodec(codec: Codec): void {
+  if (codec.name === 'raw') {
+    throw new Error('Codec name "raw" is reserved');
+  }
+  codecs.set(codec.name, codec);
+}
+
+/**
+ * 按名称获取编解码器
+ */
+export function getCodec(name: string): Codec | undefined {
+  return codecs.get(name);
+}
+
+/**
+ * 解析消息模式：raw 返回 null，编解码器实例原样返回
+ */
+export function resolveCodec(mode: string | Codec): Codec | null {
+  if (typeof mode !== 'string') {
+    return mode;
+  }
+
+  if (mode === 'raw') {
+    return null;
+  }
+
+  const codec = codecs.get(mode);
+  if (!codec) {
+    throw new Error(`Unknown codec: ${mode}`);
+  }
+  return codec;
+}
@@ -0,0 +1,156 @@
+/**
+ * 端点管理
+ * 按优先级选择端点，记录各端点的连接健康状态与冷却期
+ */
+
+import type { EndpointHealth } from '../types/socket';
+
+interface EndpointEntry {
+  url: string;
+  failures: number;
+  cooldownUntil: number;
+  lastFailureAt: number | null;
+  lastConnectedAt: number | null;
+}
+
+/**
+ * 将 URL 或 URL 列表规范化为去重后的列表
+ */
+export function toEndpointList(urls: string | readonly string[]): string[] {
+  const list = [...new Set(typeof urls === 'string' ? [urls] : urls)];
+  if (list.length === 0) {
+    throw new Error('At least one endpoint URL is required');
+  }
+  return list;
+}
+
+export class EndpointManager {
+  private entries: EndpointEntry[] = [];
+  private active: string | null = null;
+
+  /**
+   * @param urls 按优先级排列的 URL（可为空，由解析函数稍后提供）
+   * @param failoverThreshold 连续失败多少次后进入冷却
+   * @param cooldown 冷却时间（毫秒）
+   */
+  constructor(
+    urls: readonly string[],
+    private readonly failoverThreshold: number,
+    private readonly cooldown: number,
+  ) {
+    if (urls.length > 0) {
+      this.update(urls);
+    }
+  }
+
+  /**
+   * 当前选中的端点（尚未选择时为 null）
+   */
+  get current(): string | null {
+    return this.active;
+  }
+
+  /**
+   * 替换端点列表，保留仍存在的端点的健康状态
+   */
+  update(urls: readonly string[]): void {
+    const previous = new Map(this.entries.map((entry) => [entry.url, entry]));
+    this.entries = toEndpointList(urls).map(
+      (url) =>
+        previous.get(url) ?? {
+          url,
+          failures: 0,
+          cooldownUntil: 0,
+          lastFailureAt: null,
+          lastConnectedAt: null,
+        },
+    );
+  }
+
+  /**
+   * 端点优先级（0 为主端点，不在列表中时为 -1）
+   */
+  rank(url: string): number {
+    return this.entries.findIndex((entry) => entry.url === url);
+  }
+
+  /**
+   * 选择优先级最高的可用端点；全部在冷却期时选择最早结束冷却的端点
+   */
+  select(): string {
+    const now = Date.now();
+    const entry =
+      this.entries.find((candidate) => candidate.cooldownUntil <= now) ??
+      this.entries.reduce<EndpointEntry | undefined>(
+        (earliest, candidate) =>
+          !earliest || candidate.cooldownUntil < earliest.cooldownUntil
+            ? candidate
+            : earliest,
+        undefined,
+      );
+
+    if (!entry) {
+      throw new Error('No endpoints available');
+    }
+
+    this.active = entry.url;
+    return entry.url;
+  }
+
+  /**
+   * 优先级高于当前端点且不在冷却期的端点
+   */
+  preferred(): string | null {
+    const now = Date.now();
+    const rank = this.active === null ? -1 : this.rank(this.active);
+    return (
+      this.entries
+        .slice(0, Math.max(rank, 0))
+        .find((entry) => entry.cooldownUntil <= now)?.url ?? null
+    );
+  }
+
+  /**
+   * 记录连接成功，清除失败次数与冷却期
+   */
+  succeed(url: string): void {
+    const entry = this.entries.find((candidate) => candidate.url === url);
+    if (entry) {
+      entry.failures = 0;
+      entry.cooldownUntil = 0;
+      entry.lastConnectedAt = Date.now();
+    }
+  }
+
+  /**
+   * 记录连接失败，连续失败达到阈值时进入冷却
+   */
+  fail(url: string): void {
+    const entry = this.entries.find((candidate) => candidate.url === url);
+    if (!entry) {
+      return;
+    }
+
+    const now = Date.now();
+    entry.failures++;
+    entry.lastFailureAt = now;
+    if (entry.failures >= this.failoverThreshold) {
+      entry.cooldownUntil = now + this.cooldown;
+    }
+  }
+
+  /**
+   * 各端点的健康状态（按优先级排列）
+   */
+  health(): EndpointHealth[] {
+    const now = Date.now();
+    return this.entries.map((entry) => ({
+      url: entry.url,
+      healthy: entry.cooldownUntil <= now,
+      failures: entry.failures,
+      cooldownUntil: entry.cooldownUntil > now ? entry.cooldownUntil : null,
+      lastFailureAt: entry.lastFailureAt,
+      lastConnectedAt: entry.lastConnectedAt,
+    }));
+  }
+}
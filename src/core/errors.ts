@@ -0,0 +1,185 @@
+/**
+ * 客户端错误类型
+ * 所有 JSON-RPC 相关错误都带有 JsonRpcErrorCode 错误码
+ */
+
+import type { JsonRpcError } from '../types/jsonrpc';
+import { JsonRpcErrorCode, createErrorResponse } from '../types/jsonrpc';
+
+/**
+ * 请求标识（用于定位出错的请求）
+ */
+export interface RequestErrorContext {
+  /** 请求 ID */
+  id?: string | number | null;
+  /** 方法名 */
+  method?: string;
+}
+
+/**
+ * JSON-RPC 错误基类
+ */
+export class JsonRpcClientError extends Error {
+  /** 错误码 */
+  readonly code: number;
+  /** 请求 ID */
+  readonly id?: string | number | null;
+  /** 方法名 */
+  readonly method?: string;
+
+  constructor(
+    code: number,
+    message: string,
+    context: RequestErrorContext = {},
+  ) {
+    super(message);
+    this.name = 'JsonRpcClientError';
+    this.code = code;
+    this.id = context.id;
+    this.method = context.method;
+  }
+}
+
+/**
+ * 服务端返回的错误响应
+ */
+export class JsonRpcRemoteError extends JsonRpcClientError {
+  /** 服务端附带的错误数据 */
+  readonly data?: unknown;
+
+  constructor(error: JsonRpcError['error'], context: RequestErrorContext = {}) {
+    super(error.code, error.message, context);
+    this.name = 'JsonRpcRemoteError';
+    this.data = error.data;
+  }
+}
+
+/**
+ * 远程错误类构造器（用于按错误码注册应用自定义错误子类）
+ */
+export type RemoteErrorClass = new (
+  error: JsonRpcError['error'],
+  context: RequestErrorContext,
+) => JsonRpcRemoteError;
+
+/**
+ * 请求超时
+ */
+export class JsonRpcTimeoutError extends JsonRpcClientError {
+  /** 超时时间（毫秒） */
+  readonly timeout: number;
+
+  constructor(timeout: number, context: RequestErrorContext = {}) {
+    super(
+      JsonRpcErrorCode.Timeout,
+      `Request timeout after ${timeout}ms`,
+      context,
+    );
+    this.name = 'JsonRpcTimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * 连接未建立或已关闭
+ */
+export class JsonRpcConnectionClosedError extends JsonRpcClientError {
+  constructor(message: string, context: RequestErrorContext = {}) {
+    super(JsonRpcErrorCode.ConnectionClosed, message, context);
+    this.name = 'JsonRpcConnectionClosedError';
+  }
+}
+
+/**
+ * 请求被中止（name 与 fetch 一致为 AbortError）
+ */
+export class JsonRpcAbortError extends JsonRpcClientError {
+  constructor(message: string, context: RequestErrorContext = {}) {
+    super(JsonRpcErrorCode.Aborted, message, context);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * 流式迭代器缓冲区已满（溢出策略为 'error'）
+ */
+export class JsonRpcStreamOverflowError extends JsonRpcClientError {
+  /** 缓冲区大小 */
+  readonly bufferSize: number;
+
+  constructor(bufferSize: number, context: RequestErrorContext = {}) {
+    super(
+      JsonRpcErrorCode.StreamOverflow,
+      `Stream buffer overflow (${bufferSize} items)`,
+      context,
+    );
+    this.name = 'JsonRpcStreamOverflowError';
+    this.bufferSize = bufferSize;
+  }
+}
+
+/**
+ * 离线队列拒绝调用的原因
+ * - overflow: 队列已满
+ * - expired: 排队时间超过 maxQueueAge
+ * - reconnect_failed: 重连失败
+ * - closed: 连接被关闭
+ */
+export type QueueErrorReason =
+  | 'overflow'
+  | 'expired'
+  | 'reconnect_failed'
+  | 'closed';
+
+/**
+ * 离线队列中的调用未能发送
+ */
+export class JsonRpcQueueError extends JsonRpcClientError {
+  /** 拒绝原因 */
+  readonly reason: QueueErrorReason;
+
+  constructor(
+    reason: QueueErrorReason,
+    message: string,
+    context: RequestErrorContext = {},
+  ) {
+    super(JsonRpcErrorCode.QueueRejected, message, context);
+    this.name = 'JsonRpcQueueError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * 根据错误响应创建错误，优先使用按错误码注册的子类
+ */
+export function createRemoteError(
+  error: JsonRpcError['error'],
+  context: RequestErrorContext,
+  errorClasses?: Record<number, RemoteErrorClass>,
+): JsonRpcRemoteError {
+  const ErrorClass = errorClasses?.[error.code] ?? JsonRpcRemoteError;
+  return new ErrorClass(error, context);
+}
+
+/**
+ * 将方法处理器抛出的错误转换为错误响应：JSON-RPC 错误保留错误码与数据，其余错误视为内部错误
+ */
+export function toErrorResponse(
+  id: string | number | null,
+  error: unknown,
+): JsonRpcError {
+  if (error instanceof JsonRpcClientError) {
+    return createErrorResponse(
+      id,
+      error.code,
+      error.message,
+      error instanceof JsonRpcRemoteError ? error.data : undefined,
+    );
+  }
+
+  return createErrorResponse(
+    id,
+    JsonRpcErrorCode.InternalError,
+    error instanceof Error ? error.message : String(error),
+  );
+}
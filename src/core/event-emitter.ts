@@ -8,6 +8,13 @@ export class EventEmitter<TEvents extends Record<string, unknown>> {
     Set<(data: TEvents[keyof TEvents]) => void>
   >();
 
+  /**
+   * 监听器抛出异常时调用（默认输出到 console.error）
+   */
+  protected onListenerError(event: keyof TEvents, error: unknown): void {
+    console.error(`Error in event listener for "${String(event)}":`, error);
+  }
+
   /**
    * 监听事件
    */
@@ -64,10 +71,7 @@ export class EventEmitter<TEvents extends Record<string, unknown>> {
         try {
           listener(data);
         } catch (error) {
-          console.error(
-            `Error in event listener for "${String(event)}":`,
-            error,
-          );
+          this.onListenerError(event, error);
         }
       }
     }
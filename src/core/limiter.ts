@@ -0,0 +1,242 @@
+/**
+ * 出站限流
+ * 限制并发请求数（先进先出或按优先级排队）与令牌桶限速
+ */
+
+import type {
+  RateLimitOptions,
+  RequestQueueMode,
+  TokenBucketOptions,
+} from '../types/socket';
+
+/**
+ * 令牌桶：令牌不足时预支，返回需要等待的时间
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  private readonly rate: number;
+  private readonly capacity: number;
+
+  constructor({ limit, interval = 1000, burst = limit }: TokenBucketOptions) {
+    if (!(limit > 0) || !(interval > 0) || !(burst >= 1)) {
+      throw new RangeError(
+        `Invalid rate limit: ${limit} per ${interval}ms (burst ${burst})`,
+      );
+    }
+    this.rate = limit / interval;
+    this.capacity = burst;
+    this.tokens = burst;
+  }
+
+  /**
+   * 取出一个令牌，返回可以发送前需等待的毫秒数（0 表示立即发送）
+   */
+  take(): number {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (now - this.updatedAt) * this.rate,
+    );
+    this.updatedAt = now;
+    this.tokens -= 1;
+    return this.tokens >= 0 ? 0 : -this.tokens / this.rate;
+  }
+
+  /**
+   * 归还预支的令牌（等待中的调用被取消时）
+   */
+  refund(): void {
+    this.tokens = Math.min(this.capacity, this.tokens + 1);
+  }
+}
+
+interface SlotWaiter {
+  priority: number;
+  grant: () => void;
+}
+
+interface Ticket {
+  /** 是否占用并发额度 */
+  slot: boolean;
+  /** 排队优先级 */
+  priority: number;
+  signal?: AbortSignal;
+}
+
+export class OutboundLimiter {
+  private active = 0;
+  private waiters: SlotWaiter[] = [];
+  private waiting = 0;
+  private global: TokenBucket | null;
+  private methodBuckets = new Map<string, TokenBucket>();
+  private rejecters = new Set<(error: Error) => void>();
+
+  /**
+   * @param maxConcurrent 最大并发请求数，0 表示不限
+   * @param mode 排队方式
+   * @param rateLimit 令牌桶限速
+   */
+  constructor(
+    private readonly maxConcurrent: number,
+    private readonly mode: RequestQueueMode,
+    rateLimit: RateLimitOptions = {},
+  ) {
+    const { limit, interval, burst } = rateLimit;
+    this.global =
+      limit === undefined ? null : new TokenBucket({ limit, interval, burst });
+    for (const [method, options] of Object.entries(rateLimit.methods ?? {})) {
+      this.methodBuckets.set(method, new TokenBucket(options));
+    }
+  }
+
+  /**
+   * 当前排队等待的调用数
+   */
+  get depth(): number {
+    return this.waiting;
+  }
+
+  /**
+   * 等待并发额度与限速令牌，返回释放函数；信号中止或 rejectAll 时拒绝
+   */
+  async acquire(method: string, ticket: Ticket): Promise<() => void> {
+    let holding = false;
+
+    try {
+      if (ticket.slot && this.maxConcurrent > 0) {
+        await this.waitForSlot(ticket);
+        holding = true;
+      }
+      await this.waitForTokens(method, ticket.signal);
+    } catch (error) {
+      if (holding) {
+        this.release();
+      }
+      throw error;
+    }
+
+    let released = false;
+    return () => {
+      if (holding && !released) {
+        released = true;
+        this.release();
+      }
+    };
+  }
+
+  /**
+   * 拒绝所有排队中的调用
+   */
+  rejectAll(error: Error): void {
+    for (const reject of [...this.rejecters]) {
+      reject(error);
+    }
+  }
+
+  private waitForSlot({ priority, signal }: Ticket): Promise<void> {
+    if (this.active < this.maxConcurrent && this.waiters.length === 0) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return this.wait(signal, (resolve, cancel) => {
+      const waiter: SlotWaiter = {
+        priority: this.mode === 'priority' ? priority : 0,
+        grant: () => {
+          cancel();
+          this.active++;
+          resolve();
+        },
+      };
+
+      // 插入到第一个优先级更低的调用之前，相同优先级保持先进先出
+      const index = this.waiters.findIndex(
+        (entry) => entry.priority < waiter.priority,
+      );
+      this.waiters.splice(
+        index === -1 ? this.waiters.length : index,
+        0,
+        waiter,
+      );
+      return () => {
+        const position = this.waiters.indexOf(waiter);
+        if (position !== -1) {
+          this.waiters.splice(position, 1);
+        }
+      };
+    });
+  }
+
+  private waitForTokens(method: string, signal?: AbortSignal): Promise<void> {
+    const buckets = [this.global, this.methodBuckets.get(method)].filter(
+      (bucket): bucket is TokenBucket =>
+        bucket !== null && bucket !== undefined,
+    );
+    if (buckets.length === 0) {
+      return Promise.resolve();
+    }
+
+    const delay = Math.max(...buckets.map((bucket) => bucket.take()));
+    if (delay === 0) {
+      return Promise.resolve();
+    }
+
+    return this.wait(signal, (resolve, cancel) => {
+      const timeoutId = setTimeout(() => {
+        cancel();
+        resolve();
+      }, delay);
+      return () => {
+        clearTimeout(timeoutId);
+        for (const bucket of buckets) {
+          bucket.refund();
+        }
+      };
+    });
+  }
+
+  /**
+   * 等待直到 start 中调用 resolve；中止或 rejectAll 时执行 start 返回的清理函数并拒绝
+   * 仅在实际排队期间计入 depth
+   */
+  private wait(
+    signal: AbortSignal | undefined,
+    start: (resolve: () => void, cancel: () => void) => () => void,
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      this.waiting++;
+      const fail = (error: Error) => {
+        detach();
+        cleanup();
+        this.waiting--;
+        reject(error);
+      };
+      const onAbort = () => fail(signal?.reason);
+      const detach = () => {
+        signal?.removeEventListener('abort', onAbort);
+        this.rejecters.delete(fail);
+      };
+      const cleanup = start(() => {
+        this.waiting--;
+        resolve();
+      }, detach);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.rejecters.add(fail);
+    });
+  }
+
+  /**
+   * 释放并发额度并交给下一个排队的请求
+   */
+  private release(): void {
+    this.active--;
+    this.waiters.shift()?.grant();
+  }
+}
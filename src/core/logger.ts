@@ -0,0 +1,119 @@
+/**
+ * 日志
+ * 默认控制台日志器与按键路径脱敏
+ */
+
+import type { LogFields, Logger } from '../types/logger';
+
+/** 脱敏后的占位值 */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * 创建输出到控制台的日志器（debug 选项开启且未提供 logger 时使用）
+ */
+export function createConsoleLogger(prefix = '[JsonRpcWebSocket]'): Logger {
+  const write =
+    (output: (...args: unknown[]) => void) =>
+    (message: string, fields: LogFields) =>
+      output(prefix, message, fields);
+
+  return {
+    trace: write(console.debug),
+    debug: write(console.debug),
+    info: write(console.info),
+    warn: write(console.warn),
+    error: write(console.error),
+  };
+}
+
+/**
+ * 按键路径替换为占位值，返回副本（不修改原值）
+ * 路径以 . 分隔，* 匹配任意键或数组下标，如 'params.token'、'params.*.password'
+ */
+export function redact(value: unknown, paths: readonly string[]): unknown {
+  let result = value;
+  for (const path of paths) {
+    result = redactPath(result, path.split('.'));
+  }
+  return result;
+}
+
+/**
+ * 脱敏日志字段：payload 按消息路径处理，error 视为响应中的 error 字段（如 'error.data.token'）
+ * 错误实例的 data 被脱敏时返回同类副本
+ */
+export function redactFields(
+  fields: LogFields,
+  paths: readonly string[],
+): LogFields {
+  if (paths.length === 0) {
+    return fields;
+  }
+
+  const { payload, error } = fields;
+  if (payload !== undefined) {
+    fields.payload = Array.isArray(payload)
+      ? payload.map((entry) => redact(entry, paths))
+      : redact(payload, paths);
+  }
+  if (typeof error === 'object' && error !== null) {
+    fields.error = redactError(error, paths);
+  }
+  return fields;
+}
+
+function redactError(error: object, paths: readonly string[]): unknown {
+  if (!(error instanceof Error)) {
+    return (redact({ error }, paths) as { error: unknown }).error;
+  }
+
+  const data = (error as { data?: unknown }).data;
+  const redacted = (
+    redact({ error: { data } }, paths) as { error: { data: unknown } }
+  ).error.data;
+  if (data === undefined || redacted === data) {
+    return error;
+  }
+
+  const copy = Object.create(
+    Object.getPrototypeOf(error),
+    Object.getOwnPropertyDescriptors(error),
+  ) as Error;
+  Object.defineProperty(copy, 'data', {
+    value: redacted,
+    enumerable: true,
+    configurable: true,
+  });
+  return copy;
+}
+
+function redactPath(value: unknown, segments: string[]): unknown {
+  if (segments.length === 0) {
+    return REDACTED;
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const [head, ...rest] = segments;
+  const source = value as Record<string, unknown>;
+  const keys = head === '*' ? Object.keys(source) : [head];
+  let copy: Record<string, unknown> | null = null;
+
+  for (const key of keys) {
+    if (!(key in source)) {
+      continue;
+    }
+    const next = redactPath(source[key], rest);
+    if (next !== source[key]) {
+      copy ??= (Array.isArray(value) ? [...value] : { ...source }) as Record<
+        string,
+        unknown
+      >;
+      copy[key] = next;
+    }
+  }
+
+  return copy ?? value;
+}
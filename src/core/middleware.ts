@@ -0,0 +1,38 @@
+/**
+ * 中间件组合（洋葱模型，与 Koa 一致）
+ * 先注册的中间件先处理出站消息、后处理入站响应
+ */
+
+import type { Middleware, MiddlewareContext } from '../types/socket';
+
+/**
+ * 组合中间件，terminal 为最内层的实际发送
+ */
+export function composeMiddleware(
+  middlewares: readonly Middleware[],
+): (
+  context: MiddlewareContext,
+  terminal: () => Promise<void>,
+) => Promise<void> {
+  return (context, terminal) => {
+    let index = -1;
+
+    const dispatch = (i: number): Promise<void> => {
+      if (i <= index) {
+        return Promise.reject(new Error('next() called multiple times'));
+      }
+      index = i;
+
+      try {
+        if (i === middlewares.length) {
+          return terminal();
+        }
+        return Promise.resolve(middlewares[i](context, () => dispatch(i + 1)));
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    };
+
+    return dispatch(0);
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * 离线出站队列
+ * 断线或重连期间缓存调用，连接打开后按顺序发送
+ */
+
+import { JsonRpcQueueError } from './errors';
+
+/**
+ * 排队的调用
+ */
+export interface QueuedCall {
+  /** 连接打开后执行实际发送 */
+  run: () => void;
+  /** 队列放弃该调用时拒绝 */
+  reject: (error: Error) => void;
+}
+
+interface QueueItem extends QueuedCall {
+  expireTimerId: NodeJS.Timeout | null;
+}
+
+export class OfflineQueue {
+  private items: QueueItem[] = [];
+
+  /**
+   * @param maxSize 最大排队数
+   * @param maxAge 最大排队时长（毫秒），0 表示不限
+   */
+  constructor(
+    private readonly maxSize: number,
+    private readonly maxAge: number,
+  ) {}
+
+  /**
+   * 当前排队数
+   */
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * 加入队列，返回移除函数
+   */
+  enqueue(call: QueuedCall): () => void {
+    if (this.items.length >= this.maxSize) {
+      throw new JsonRpcQueueError(
+        'overflow',
+        `Offline queue is full (max ${this.maxSize})`,
+      );
+    }
+
+    const item: QueueItem = { ...call, expireTimerId: null };
+
+    if (this.maxAge > 0) {
+      item.expireTimerId = setTimeout(() => {
+        this.remove(item);
+        item.reject(
+          new JsonRpcQueueError(
+            'expired',
+            `Call expired after ${this.maxAge}ms in offline queue`,
+          ),
+        );
+      }, this.maxAge);
+    }
+
+    this.items.push(item);
+
+    return () => this.remove(item);
+  }
+
+  /**
+   * 按入队顺序执行所有调用
+   */
+  flush(): void {
+    const items = this.items;
+    this.items = [];
+
+    for (const item of items) {
+      this.clearExpireTimer(item);
+      item.run();
+    }
+  }
+
+  /**
+   * 拒绝所有排队的调用
+   */
+  rejectAll(error: JsonRpcQueueError): void {
+    const items = this.items;
+    this.items = [];
+
+    for (const item of items) {
+      this.clearExpireTimer(item);
+      item.reject(error);
+    }
+  }
+
+  private remove(item: QueueItem): void {
+    const index = this.items.indexOf(item);
+    if (index !== -1) {
+      this.items.splice(index, 1);
+      this.clearExpireTimer(item);
+    }
+  }
+
+  private clearExpireTimer(item: QueueItem): void {
+    if (item.expireTimerId) {
+      clearTimeout(item.expireTimerId);
+      item.expireTimerId = null;
+    }
+  }
+}
@@ -0,0 +1,308 @@
+/**
+ * JSON-RPC WebSocket 连接池
+ * 将请求分散到多个连接，避免单个连接上的大帧阻塞后续响应：
+ * - 轮询或最少待处理请求路由
+ * - 流式请求固定在创建时选中的连接上（重连后在同一连接上重新订阅）
+ * - 汇总性能统计
+ */
+
+import type {
+  ApiMethod,
+  ApiProxy,
+  ApiResult,
+  TypedNotificationOptions,
+  TypedRequestOptions,
+  TypedStreamIteratorOptions,
+  TypedStreamOptions,
+  UntypedApi,
+  UntypedOptions,
+} from '../types/api';
+import type { JsonRpcResponse } from '../types/jsonrpc';
+import type { PoolOptions, PoolRouting } from '../types/pool';
+import type {
+  MethodHandler,
+  MethodStats,
+  Middleware,
+  NotificationHandler,
+  NotificationOptions,
+  PerformanceStats,
+  RequestOptions,
+  SocketEvents,
+  StreamController,
+  StreamIterator,
+  StreamIteratorOptions,
+  StreamOptions,
+} from '../types/socket';
+import { JsonRpcWebSocketClient } from './client';
+import { createApiProxy } from './proxy';
+import type { StatsCounters } from './stats';
+import { createCounters, mergeLatency } from './stats';
+
+/**
+ * 汇总各连接的性能统计（计数求和，延迟合并直方图后重新计算分位数）
+ */
+function aggregateStats(
+  stats: readonly Readonly<PerformanceStats>[],
+): PerformanceStats {
+  const counters = createCounters();
+  const methods = new Map<string, MethodStats[]>();
+  let heartbeatRtt = 0;
+  let heartbeatTotal = 0;
+  let heartbeatSamples = 0;
+
+  for (const entry of stats) {
+    for (const key of Object.keys(counters) as (keyof StatsCounters)[]) {
+      counters[key] += entry[key];
+    }
+    heartbeatRtt = Math.max(heartbeatRtt, entry.heartbeatRtt);
+
+    if (entry.averageHeartbeatRtt > 0) {
+      heartbeatTotal += entry.averageHeartbeatRtt;
+      heartbeatSamples++;
+    }
+
+    for (const [method, methodStats] of Object.entries(entry.methods)) {
+      methods.set(method, [...(methods.get(method) ?? []), methodStats]);
+    }
+  }
+
+  const latency = mergeLatency(stats.map((entry) => entry.latency));
+  return {
+    ...counters,
+    heartbeatRtt,
+    averageResponseTime: latency.mean,
+    averageHeartbeatRtt:
+      heartbeatSamples > 0 ? heartbeatTotal / heartbeatSamples : 0,
+    latency,
+    queueWait: mergeLatency(stats.map((entry) => entry.queueWait)),
+    methods: Object.fromEntries(
+      [...methods].map(([method, list]) => [
+        method,
+        {
+          calls: list.reduce((sum, entry) => sum + entry.calls, 0),
+          errors: list.reduce((sum, entry) => sum + entry.errors, 0),
+          timeouts: list.reduce((sum, entry) => sum + entry.timeouts, 0),
+          latency: mergeLatency(list.map((entry) => entry.latency)),
+        },
+      ]),
+    ),
+  };
+}
+
+export class JsonRpcWebSocketPool<TApi extends object = UntypedApi> {
+  /** 池中的客户端（按创建顺序） */
+  readonly clients: readonly JsonRpcWebSocketClient<TApi>[];
+  private routing: PoolRouting;
+  private cursor = 0;
+
+  constructor(options: PoolOptions) {
+    const { size = 4, routing = 'round-robin', ...connection } = options;
+    if (!Number.isInteger(size) || size < 1) {
+      throw new RangeError(`Pool size must be a positive integer, got ${size}`);
+    }
+
+    this.routing = routing;
+    this.clients = Array.from(
+      { length: size },
+      () => new JsonRpcWebSocketClient<TApi>(connection),
+    );
+  }
+
+  /**
+   * 是否至少有一个连接已打开
+   */
+  get isConnected(): boolean {
+    return this.clients.some((client) => client.isConnected);
+  }
+
+  /**
+   * 已打开的连接数
+   */
+  get connectedCount(): number {
+    return this.clients.filter((client) => client.isConnected).length;
+  }
+
+  /**
+   * 建立所有连接，全部打开时完成
+   */
+  async connect(): Promise<void> {
+    await Promise.all(this.clients.map((client) => client.connect()));
+  }
+
+  /**
+   * 等待所有连接打开（不主动发起连接）
+   */
+  async ready(): Promise<void> {
+    await Promise.all(this.clients.map((client) => client.ready()));
+  }
+
+  /**
+   * 获取汇总的性能统计
+   */
+  getStats(): PerformanceStats {
+    return aggregateStats(this.clients.map((client) => client.getStats()));
+  }
+
+  /**
+   * 清零所有连接的性能统计
+   */
+  resetStats(): void {
+    for (const client of this.clients) {
+      client.resetStats();
+    }
+  }
+
+  /**
+   * 发送请求（按路由策略选择连接）
+   */
+  request<M extends ApiMethod<TApi>>(
+    options: TypedRequestOptions<TApi, M>,
+  ): Promise<ApiResult<TApi, M>>;
+  request<TResult = unknown, TParams = unknown>(
+    options: UntypedOptions<TApi, RequestOptions<TParams>>,
+  ): Promise<TResult>;
+  request(options: RequestOptions): Promise<unknown> {
+    return this.pick().request(options as never);
+  }
+
+  /**
+   * 发送通知（按路由策略选择连接）
+   */
+  notify<M extends ApiMethod<TApi>>(
+    options: TypedNotificationOptions<TApi, M>,
+  ): Promise<void>;
+  notify<TParams = unknown>(
+    options: UntypedOptions<TApi, NotificationOptions<TParams>>,
+  ): Promise<void>;
+  notify(options: NotificationOptions): Promise<void> {
+    return this.pick().notify(options as never);
+  }
+
+  /**
+   * 创建流式请求（固定在选中的连接上）
+   */
+  stream<M extends ApiMethod<TApi>>(
+    options: TypedStreamOptions<TApi, M>,
+    callback: (response: JsonRpcResponse<ApiResult<TApi, M>>) => void,
+  ): StreamController;
+  stream<TResult = unknown, TParams = unknown>(
+    options: UntypedOptions<TApi, StreamOptions<TParams>>,
+    callback: (response: JsonRpcResponse<TResult>) => void,
+  ): StreamController;
+  stream(
+    options: StreamOptions,
+    callback: (response: JsonRpcResponse<never>) => void,
+  ): StreamController {
+    return this.pick().stream(options as never, callback);
+  }
+
+  /**
+   * 创建可异步迭代的流式请求（固定在选中的连接上）
+   */
+  streamIterator<M extends ApiMethod<TApi>>(
+    options: TypedStreamIteratorOptions<TApi, M>,
+  ): StreamIterator<ApiResult<TApi, M>>;
+  streamIterator<TResult = unknown, TParams = unknown>(
+    options: UntypedOptions<TApi, StreamIteratorOptions<TParams, TResult>>,
+  ): StreamIterator<TResult>;
+  streamIterator(
+    options: StreamIteratorOptions<unknown, never>,
+  ): StreamIterator {
+    return this.pick().streamIterator(options as never);
+  }
+
+  /**
+   * 创建方法代理，每次调用单独路由
+   */
+  proxy(): ApiProxy<TApi> {
+    return createApiProxy((method, params, options) =>
+      this.request({ ...options, method, params } as never),
+    ) as ApiProxy<TApi>;
+  }
+
+  /**
+   * 在所有连接上注册中间件，返回移除函数
+   */
+  use(middleware: Middleware): () => void {
+    return this.each((client) => client.use(middleware));
+  }
+
+  /**
+   * 在所有连接上注册入站请求处理器，返回取消注册函数
+   */
+  handle<TParams = unknown, TResult = unknown>(
+    method: string,
+    handler: MethodHandler<TParams, TResult>,
+  ): () => void {
+    return this.each((client) => client.handle(method, handler));
+  }
+
+  /**
+   * 在所有连接上监听服务端通知，返回取消监听函数
+   */
+  onNotification<TParams = unknown>(
+    method: string,
+    handler: NotificationHandler<TParams>,
+  ): () => void {
+    return this.each((client) => client.onNotification(method, handler));
+  }
+
+  /**
+   * 监听所有连接的事件，返回取消监听函数
+   */
+  on<K extends keyof SocketEvents>(
+    event: K,
+    listener: (data: SocketEvents[K]) => void,
+  ): () => void {
+    return this.each((client) => client.on(event, listener));
+  }
+
+  /**
+   * 关闭所有连接
+   */
+  close(code?: number, reason?: string): void {
+    for (const client of this.clients) {
+      client.close(code, reason);
+    }
+  }
+
+  /**
+   * 按路由策略选择连接：优先已打开的连接，全部断开时在所有连接中选择（由客户端排队或拒绝）
+   */
+  private pick(): JsonRpcWebSocketClient<TApi> {
+    const connected = this.clients.filter((client) => client.isConnected);
+    const candidates = connected.length > 0 ? connected : this.clients;
+    const start = this.cursor++ % candidates.length;
+
+    if (this.routing === 'round-robin') {
+      return candidates[start];
+    }
+
+    // 从轮询位置开始比较，待处理请求数相同时分散到不同连接
+    let best = candidates[start];
+    let fewest = best.pendingCount;
+    for (let i = 1; i < candidates.length; i++) {
+      const client = candidates[(start + i) % candidates.length];
+      const pending = client.pendingCount;
+      if (pending < fewest) {
+        best = client;
+        fewest = pending;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * 对每个连接执行注册操作，返回合并的注销函数
+   */
+  private each(
+    register: (client: JsonRpcWebSocketClient<TApi>) => () => void,
+  ): () => void {
+    const unregisters = this.clients.map(register);
+    return () => {
+      for (const unregister of unregisters) {
+        unregister();
+      }
+    };
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * 方法代理
+ * 按属性访问路径拼接点分方法名：api.user.login(params) → request('user.login')
+ */
+
+import type { ProxyCallOptions } from '../types/api';
+
+export type ProxyCall = (
+  method: string,
+  params: unknown,
+  options?: ProxyCallOptions,
+) => Promise<unknown>;
+
+export function createApiProxy(call: ProxyCall, path: string[] = []): unknown {
+  return new Proxy(() => undefined, {
+    get(_target, property) {
+      // 不暴露 then，避免代理被当作 thenable 处理
+      if (typeof property === 'symbol' || property === 'then') {
+        return undefined;
+      }
+      return createApiProxy(call, [...path, property]);
+    },
+    apply(_target, _thisArg, args: [unknown?, ProxyCallOptions?]) {
+      if (path.length === 0) {
+        throw new TypeError('Cannot call the API proxy root');
+      }
+      return call(path.join('.'), args[0], args[1]);
+    },
+  });
+}
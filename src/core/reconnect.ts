@@ -0,0 +1,140 @@
+/**
+ * 内置重连策略
+ */
+
+import type { ReconnectContext, ReconnectPolicy } from '../types/socket';
+
+/**
+ * 固定间隔重连配置
+ */
+export interface FixedIntervalOptions {
+  /** 重连间隔（毫秒） */
+  interval?: number;
+  /** 最大重连次数 */
+  maxAttempts?: number;
+  /** 遇到这些关闭码时立即停止重连 */
+  stopOnCloseCodes?: number[];
+}
+
+/**
+ * 指数退避重连配置
+ */
+export interface ExponentialBackoffOptions {
+  /** 首次重连延迟上限（毫秒） */
+  initialDelay?: number;
+  /** 延迟上限（毫秒） */
+  maxDelay?: number;
+  /** 每次重连的延迟倍数 */
+  multiplier?: number;
+  /** 最大重连次数，默认不限 */
+  maxAttempts?: number;
+  /** 遇到这些关闭码时立即停止重连（默认 1008 策略违规） */
+  stopOnCloseCodes?: number[];
+}
+
+/**
+ * 无限重连配置
+ */
+export interface RetryForeverOptions {
+  /** 首次重连延迟（毫秒） */
+  initialDelay?: number;
+  /** 延迟上限（毫秒） */
+  maxDelay?: number;
+  /** 每次重连的延迟倍数 */
+  multiplier?: number;
+  /** 遇到这些关闭码时立即停止重连（默认 1008 策略违规） */
+  stopOnCloseCodes?: number[];
+}
+
+const POLICY_VIOLATION = 1008;
+
+/**
+ * 关闭码是否要求停止重连
+ */
+function isStopCode(context: ReconnectContext, codes: number[]): boolean {
+  return (
+    context.closeEvent !== undefined && codes.includes(context.closeEvent.code)
+  );
+}
+
+/**
+ * 固定间隔重连（默认策略）
+ */
+export function fixedInterval(
+  options: FixedIntervalOptions = {},
+): ReconnectPolicy {
+  const { interval = 3000, maxAttempts = 5, stopOnCloseCodes = [] } = options;
+
+  const policy = (context: ReconnectContext) => {
+    if (
+      isStopCode(context, stopOnCloseCodes) ||
+      context.attempt > maxAttempts
+    ) {
+      return false;
+    }
+    return interval;
+  };
+
+  return Object.assign(policy, { maxAttempts });
+}
+
+/**
+ * 指数退避 + 全抖动（Full Jitter）
+ * 第 n 次重连的延迟在 [0, min(maxDelay, initialDelay * multiplier^(n-1))) 中随机选取，
+ * 避免大量客户端在服务端重启后同时重连
+ */
+export function exponentialBackoff(
+  options: ExponentialBackoffOptions = {},
+): ReconnectPolicy {
+  const {
+    initialDelay = 1000,
+    maxDelay = 30000,
+    multiplier = 2,
+    maxAttempts = Number.POSITIVE_INFINITY,
+    stopOnCloseCodes = [POLICY_VIOLATION],
+  } = options;
+
+  const policy = (context: ReconnectContext) => {
+    if (
+      isStopCode(context, stopOnCloseCodes) ||
+      context.attempt > maxAttempts
+    ) {
+      return false;
+    }
+    const ceiling = Math.min(
+      maxDelay,
+      initialDelay * multiplier ** (context.attempt - 1),
+    );
+    return Math.random() * ceiling;
+  };
+
+  return Object.assign(policy, { maxAttempts });
+}
+
+/**
+ * 无限重连，延迟按倍数增长直到上限
+ */
+export function retryForever(
+  options: RetryForeverOptions = {},
+): ReconnectPolicy {
+  const {
+    initialDelay = 1000,
+    maxDelay = 30000,
+    multiplier = 2,
+    stopOnCloseCodes = [POLICY_VIOLATION],
+  } = options;
+
+  const policy = (context: ReconnectContext) => {
+    if (isStopCode(context, stopOnCloseCodes)) {
+      return false;
+    }
+    return Math.min(
+      maxDelay,
+      initialDelay * multiplier ** (context.attempt - 1),
+    );
+  };
+
+  return Object.assign(policy, {
+    maxAttempts: Number.POSITIVE_INFINITY,
+  });
+}
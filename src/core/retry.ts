@@ -0,0 +1,84 @@
+/**
+ * 请求重试
+ */
+
+import { JsonRpcErrorCode } from '../types/jsonrpc';
+import type { RetryOptions, RetryRule } from '../types/socket';
+import { JsonRpcClientError } from './errors';
+
+/**
+ * 默认仅重试超时与连接关闭，服务端返回的错误不重试
+ */
+const DEFAULT_RETRY_CODES = [
+  JsonRpcErrorCode.Timeout,
+  JsonRpcErrorCode.ConnectionClosed,
+];
+
+/**
+ * 方法名是否匹配规则（字符串支持 * 通配）
+ */
+export function matchMethod(
+  pattern: RetryRule['match'],
+  method: string,
+): boolean {
+  if (typeof pattern === 'function') {
+    return pattern(method);
+  }
+
+  if (pattern instanceof RegExp) {
+    return pattern.test(method);
+  }
+
+  if (!pattern.includes('*')) {
+    return pattern === method;
+  }
+
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(method);
+}
+
+/**
+ * 确定请求的重试配置：请求级配置优先，其次是第一条匹配方法名的客户端规则
+ */
+export function resolveRetry(
+  method: string,
+  retry: RetryOptions | false | undefined,
+  rules: readonly RetryRule[],
+): RetryOptions | null {
+  if (retry === false) {
+    return null;
+  }
+
+  if (retry) {
+    return retry;
+  }
+
+  return rules.find((rule) => matchMethod(rule.match, method)) ?? null;
+}
+
+/**
+ * 错误是否可重试
+ */
+export function isRetryable(
+  options: RetryOptions,
+  error: unknown,
+  attempt: number,
+): boolean {
+  if (options.shouldRetry) {
+    return options.shouldRetry(error as Error, attempt);
+  }
+
+  const codes = options.retryOnCodes ?? DEFAULT_RETRY_CODES;
+  return error instanceof JsonRpcClientError && codes.includes(error.code);
+}
+
+/**
+ * 第 attempt 次重试前的延迟（毫秒）
+ */
+export function retryDelay(options: RetryOptions, attempt: number): number {
+  const { backoff = 0 } = options;
+  return typeof backoff === 'function' ? backoff(attempt) : backoff;
+}
@@ -0,0 +1,277 @@
+/**
+ * 性能统计
+ * 流式延迟直方图（按对数分桶，内存与样本数无关）、按方法统计与帧字节数
+ */
+
+import type { WireData } from '../types/codec';
+import type {
+  LatencyStats,
+  MethodStats,
+  PerformanceStats,
+  RawOutboundData,
+} from '../types/socket';
+
+/** 相邻分桶的比例，分位数的相对误差不超过 2% */
+const BUCKET_GROWTH = 1.02;
+const LOG_BUCKET_GROWTH = Math.log(BUCKET_GROWTH);
+
+/**
+ * 计数类统计（延迟与按方法统计由直方图单独维护）
+ */
+export type StatsCounters = Omit<
+  PerformanceStats,
+  | 'latency'
+  | 'methods'
+  | 'queueWait'
+  | 'averageResponseTime'
+  | 'averageHeartbeatRtt'
+>;
+
+/**
+ * 创建清零的计数
+ */
+export function createCounters(): StatsCounters {
+  return {
+    requestsSent: 0,
+    responsesReceived: 0,
+    timeouts: 0,
+    errors: 0,
+    pendingRequests: 0,
+    queuedCalls: 0,
+    reconnectCount: 0,
+    retries: 0,
+    heartbeatRtt: 0,
+    missedHeartbeats: 0,
+    bytesSent: 0,
+    bytesReceived: 0,
+  };
+}
+
+/**
+ * 字符串按 UTF-8 编码后的字节数（不分配缓冲区）
+ */
+function utf8Length(str: string): number {
+  let length = 0;
+  for (let i = 0; i < str.length; i++) {
+    const code = str.charCodeAt(i);
+    if (code < 0x80) {
+      length += 1;
+    } else if (code < 0x800) {
+      length += 2;
+    } else if (code >= 0xd800 && code <= 0xdbff && i + 1 < str.length) {
+      // 代理对
+      length += 4;
+      i++;
+    } else {
+      length += 3;
+    }
+  }
+  return length;
+}
+
+/**
+ * 帧的字节数
+ */
+export function byteLength(data: WireData | RawOutboundData): number {
+  if (typeof data === 'string') {
+    return utf8Length(data);
+  }
+  if (typeof Blob !== 'undefined' && data instanceof Blob) {
+    return data.size;
+  }
+  return (data as ArrayBuffer | ArrayBufferView).byteLength;
+}
+
+/**
+ * 快照对应的直方图副本：合并多个快照时按分桶重新计算分位数
+ */
+const snapshotSources = new WeakMap<LatencyStats, LatencyHistogram>();
+
+export class LatencyHistogram {
+  private buckets = new Map<number, number>();
+  private total = 0;
+  private sum = 0;
+  private min = Number.POSITIVE_INFINITY;
+  private max = 0;
+
+  /**
+   * 样本数
+   */
+  get count(): number {
+    return this.total;
+  }
+
+  /**
+   * 平均值（无样本时为 0）
+   */
+  get mean(): number {
+    return this.total === 0 ? 0 : this.sum / this.total;
+  }
+
+  /**
+   * 记录一个样本（毫秒）
+   */
+  record(value: number): void {
+    // 小于 1ms 的样本归入 0 号桶，其余按对数分桶
+    const bucket =
+      value < 1 ? 0 : Math.ceil(Math.log(value) / LOG_BUCKET_GROWTH) + 1;
+    this.buckets.set(bucket, (this.buckets.get(bucket) ?? 0) + 1);
+    this.total++;
+    this.sum += value;
+    this.min = Math.min(this.min, value);
+    this.max = Math.max(this.max, value);
+  }
+
+  /**
+   * 分位数（q 取 0~1），结果为所在桶的上界并限制在最小值与最大值之间
+   */
+  percentile(q: number): number {
+    if (this.total === 0) {
+      return 0;
+    }
+
+    const rank = Math.max(1, Math.ceil(q * this.total));
+    const buckets = [...this.buckets.keys()].sort((a, b) => a - b);
+    let seen = 0;
+    for (const bucket of buckets) {
+      seen += this.buckets.get(bucket) ?? 0;
+      if (seen >= rank) {
+        const upper = bucket === 0 ? 0 : BUCKET_GROWTH ** (bucket - 1);
+        return Math.min(Math.max(upper, this.min), this.max);
+      }
+    }
+    return this.max;
+  }
+
+  /**
+   * 延迟统计快照
+   */
+  snapshot(): LatencyStats {
+    const stats: LatencyStats = {
+      count: this.total,
+      mean: this.mean,
+      p50: this.percentile(0.5),
+      p90: this.percentile(0.9),
+      p99: this.percentile(0.99),
+      max: this.max,
+    };
+    const source = new LatencyHistogram();
+    source.merge(this);
+    snapshotSources.set(stats, source);
+    return stats;
+  }
+
+  /**
+   * 合并另一个直方图的样本
+   */
+  merge(other: LatencyHistogram): void {
+    for (const [bucket, count] of other.buckets) {
+      this.buckets.set(bucket, (this.buckets.get(bucket) ?? 0) + count);
+    }
+    this.total += other.total;
+    this.sum += other.sum;
+    this.min = Math.min(this.min, other.min);
+    this.max = Math.max(this.max, other.max);
+  }
+
+  /**
+   * 清空样本
+   */
+  clear(): void {
+    this.buckets.clear();
+    this.total = 0;
+    this.sum = 0;
+    this.min = Number.POSITIVE_INFINITY;
+    this.max = 0;
+  }
+}
+
+interface MethodEntry {
+  calls: number;
+  errors: number;
+  timeouts: number;
+  latency: LatencyHistogram;
+}
+
+export class MethodStatsTable {
+  private entries = new Map<string, MethodEntry>();
+
+  /**
+   * 记录发送的调用
+   */
+  sent(method: string): void {
+    this.entry(method).calls++;
+  }
+
+  /**
+   * 记录错误响应
+   */
+  error(method: string): void {
+    this.entry(method).errors++;
+  }
+
+  /**
+   * 记录超时
+   */
+  timeout(method: string): void {
+    this.entry(method).timeouts++;
+  }
+
+  /**
+   * 记录响应时间（毫秒）
+   */
+  latency(method: string, time: number): void {
+    this.entry(method).latency.record(time);
+  }
+
+  /**
+   * 按方法名的统计快照
+   */
+  snapshot(): Record<string, MethodStats> {
+    const result: Record<string, MethodStats> = {};
+    for (const [method, entry] of this.entries) {
+      result[method] = {
+        calls: entry.calls,
+        errors: entry.errors,
+        timeouts: entry.timeouts,
+        latency: entry.latency.snapshot(),
+      };
+    }
+    return result;
+  }
+
+  /**
+   * 清空统计
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private entry(method: string): MethodEntry {
+    let entry = this.entries.get(method);
+    if (!entry) {
+      entry = {
+        calls: 0,
+        errors: 0,
+        timeouts: 0,
+        latency: new LatencyHistogram(),
+      };
+      this.entries.set(method, entry);
+    }
+    return entry;
+  }
+}
+
+/**
+ * 合并多个延迟快照：合并分桶后重新计算分位数（仅合并由 LatencyHistogram 生成的快照）
+ */
+export function mergeLatency(list: readonly LatencyStats[]): LatencyStats {
+  const merged = new LatencyHistogram();
+  for (const entry of list) {
+    const source = snapshotSources.get(entry);
+    if (source) {
+      merged.merge(source);
+    }
+  }
+  return merged.snapshot();
+}
@@ -0,0 +1,221 @@
+/**
+ * 流式迭代器
+ * 将流式响应转换为异步迭代：有界缓冲、结束标记与空闲超时
+ */
+
+import type {
+  StreamController,
+  StreamEvents,
+  StreamIterator,
+  StreamOverflowPolicy,
+} from '../types/socket';
+import type { RequestErrorContext } from './errors';
+import {
+  JsonRpcAbortError,
+  JsonRpcStreamOverflowError,
+  JsonRpcTimeoutError,
+} from './errors';
+
+export interface StreamIteratorSettings {
+  /** 未消费数据的最大缓冲条数 */
+  bufferSize: number;
+  /** 缓冲区满时的处理策略 */
+  overflow: StreamOverflowPolicy;
+  /** 两次数据之间的最长间隔（毫秒），0 表示不限 */
+  idleTimeout: number;
+  /** 错误上下文 */
+  context: RequestErrorContext;
+  /** 中止信号，中止后以 JsonRpcAbortError 结束迭代 */
+  signal?: AbortSignal;
+}
+
+export class ClientStreamIterator<T> implements StreamIterator<T> {
+  private controller: StreamController | null = null;
+  private buffer: T[] = [];
+  private waiters: {
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (error: Error) => void;
+  }[] = [];
+  private failure: Error | null = null;
+  private isDone = false;
+  private idleTimeoutId: NodeJS.Timeout | null = null;
+
+  private readonly onAbort = () => {
+    this.fail(new JsonRpcAbortError('Stream aborted', this.settings.context));
+  };
+
+  constructor(private readonly settings: StreamIteratorSettings) {}
+
+  get id(): string | number {
+    return this.controller?.id ?? '';
+  }
+
+  get closed(): boolean {
+    return this.controller?.closed ?? this.isDone;
+  }
+
+  /**
+   * 绑定底层流控制器，开始监听中止信号并计算空闲时间
+   */
+  attach(controller: StreamController): void {
+    this.controller = controller;
+    if (this.isDone) {
+      controller.close();
+      return;
+    }
+    this.settings.signal?.addEventListener('abort', this.onAbort, {
+      once: true,
+    });
+    this.touch();
+  }
+
+  on<K extends keyof StreamEvents>(
+    event: K,
+    listener: (data: StreamEvents[K]) => void,
+  ): () => void {
+    return this.controller?.on(event, listener) ?? (() => undefined);
+  }
+
+  /**
+   * 写入一条数据
+   */
+  push(value: T): void {
+    if (this.isDone) {
+      return;
+    }
+
+    this.touch();
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.resolve({ value, done: false });
+      return;
+    }
+
+    if (this.buffer.length >= this.settings.bufferSize) {
+      switch (this.settings.overflow) {
+        case 'drop-oldest':
+          this.buffer.shift();
+          break;
+        case 'drop-newest':
+          return;
+        default:
+          this.fail(
+            new JsonRpcStreamOverflowError(
+              this.settings.bufferSize,
+              this.settings.context,
+            ),
+          );
+          return;
+      }
+    }
+
+    this.buffer.push(value);
+  }
+
+  /**
+   * 正常结束：已缓冲的数据仍可消费
+   */
+  end(): void {
+    if (this.finish()) {
+      for (const waiter of this.waiters.splice(0)) {
+        waiter.resolve({ value: undefined, done: true });
+      }
+    }
+  }
+
+  /**
+   * 以错误结束：已缓冲的数据消费完后抛出错误
+   */
+  fail(error: Error): void {
+    if (this.finish()) {
+      this.failure = error;
+      // 有等待者说明缓冲区为空
+      const waiter = this.waiters.shift();
+      if (waiter) {
+        this.failure = null;
+        waiter.reject(error);
+      }
+      for (const rest of this.waiters.splice(0)) {
+        rest.resolve({ value: undefined, done: true });
+      }
+    }
+  }
+
+  /**
+   * 关闭流，结束迭代
+   */
+  close(): void {
+    this.buffer = [];
+    this.failure = null;
+    this.end();
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.buffer.length > 0) {
+      return Promise.resolve({ value: this.buffer.shift() as T, done: false });
+    }
+
+    if (this.failure) {
+      const error = this.failure;
+      this.failure = null;
+      return Promise.reject(error);
+    }
+
+    if (this.isDone) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * 提前退出迭代（for await 中 break）时关闭流
+   */
+  return(): Promise<IteratorResult<T>> {
+    this.close();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): this {
+    return this;
+  }
+
+  /**
+   * 重置空闲计时
+   */
+  private touch(): void {
+    const { idleTimeout, context } = this.settings;
+    if (idleTimeout <= 0) {
+      return;
+    }
+
+    if (this.idleTimeoutId) {
+      clearTimeout(this.idleTimeoutId);
+    }
+
+    this.idleTimeoutId = setTimeout(() => {
+      this.fail(new JsonRpcTimeoutError(idleTimeout, context));
+    }, idleTimeout);
+  }
+
+  /**
+   * 标记结束、移除中止监听并关闭底层流，返回是否为首次结束
+   */
+  private finish(): boolean {
+    if (this.isDone) {
+      return false;
+    }
+
+    this.isDone = true;
+    this.settings.signal?.removeEventListener('abort', this.onAbort);
+    if (this.idleTimeoutId) {
+      clearTimeout(this.idleTimeoutId);
+      this.idleTimeoutId = null;
+    }
+    this.controller?.close();
+    return true;
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * 流式请求
+ * 记录原始请求以便重连后重新订阅
+ */
+
+import type { JsonRpcRequest, JsonRpcResponse } from '../types/jsonrpc';
+import { JsonRpcErrorCode, createErrorResponse } from '../types/jsonrpc';
+import type { StreamController, StreamEvents } from '../types/socket';
+import { EventEmitter } from './event-emitter';
+
+export class ClientStream
+  extends EventEmitter<StreamEvents>
+  implements StreamController
+{
+  readonly id: string | number;
+  private isClosed = false;
+
+  /**
+   * @param request 原始流请求（重新订阅时原样重发）
+   * @param callback 响应回调
+   * @param resubscribe 重连后是否重新订阅
+   * @param onClose 关闭时的清理回调
+   */
+  constructor(
+    readonly request: JsonRpcRequest,
+    private readonly callback: (response: JsonRpcResponse) => void,
+    readonly resubscribe: boolean,
+    private readonly onClose: () => void,
+  ) {
+    super();
+    this.id = request.id as string | number;
+  }
+
+  get closed(): boolean {
+    return this.isClosed;
+  }
+
+  /**
+   * 投递响应
+   */
+  deliver(response: JsonRpcResponse): void {
+    if (!this.isClosed) {
+      this.callback(response);
+    }
+  }
+
+  /**
+   * 已在新连接上重新订阅
+   */
+  resubscribed(attempt: number): void {
+    this.emit('resubscribe', { attempt });
+  }
+
+  /**
+   * 流已丢失：以错误响应结束并关闭
+   */
+  lose(reason: string): void {
+    if (this.isClosed) {
+      return;
+    }
+
+    this.deliver(
+      createErrorResponse(this.id, JsonRpcErrorCode.ConnectionClosed, reason),
+    );
+    this.emit('lost', { reason });
+    this.close();
+  }
+
+  /**
+   * 关闭流
+   */
+  close(): void {
+    if (this.isClosed) {
+      return;
+    }
+
+    this.isClosed = true;
+    this.onClose();
+    this.removeAllListeners();
+  }
+}
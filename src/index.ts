@@ -7,6 +7,9 @@
 export { JsonRpcWebSocketClient as default } from './core/client';
 export { JsonRpcWebSocketClient } from './core/client';
 
+// 连接池
+export { JsonRpcWebSocketPool } from './core/pool';
+
 // 类型导出
 export type {
   // JSON-RPC 类型
@@ -16,24 +19,149 @@ export type {
   JsonRpcError,
   JsonRpcNotification,
   JsonRpcMessage,
-  JsonRpcErrorCode,
+  JsonRpcBatch,
   // Socket 类型
   ConnectionOptions,
+  AuthClient,
+  AuthContext,
+  AuthenticateHandler,
+  EndpointResolver,
+  EndpointHealth,
+  EndpointChangeReason,
+  HeartbeatMode,
+  RequestQueueMode,
+  RateLimitOptions,
+  TokenBucketOptions,
+  ReconnectContext,
+  ReconnectPolicy,
   RequestOptions,
+  RetryOptions,
+  RetryRule,
   NotificationOptions,
   StreamOptions,
   StreamController,
+  StreamEvents,
+  StreamIterator,
+  StreamIteratorOptions,
+  StreamOverflowPolicy,
+  BatchBuilder,
+  Middleware,
+  MiddlewareContext,
+  MethodHandler,
+  NotificationHandler,
+  InboundRequestContext,
   SocketEvents,
   PerformanceStats,
+  LatencyStats,
+  MethodStats,
   ConnectionState,
   InboundMode,
   OutboundMode,
   RawOutboundData,
   MessageEventData,
+  // 编解码器类型
+  Codec,
+  WireData,
+  // 传输层类型
+  Transport,
+  TransportHandlers,
+  TransportCloseEvent,
+  TransportFactory,
+  // 连接池类型
+  PoolOptions,
+  PoolRouting,
+  // 链路追踪类型
+  Tracer,
+  Span,
+  SpanKind,
+  SpanOptions,
+  // 流量录制类型
+  FrameDirection,
+  RecordingFormat,
+  RecorderOptions,
+  ReplayOptions,
+  TrafficEntry,
+  TrafficOpenEntry,
+  TrafficFrameEntry,
+  TrafficCloseEntry,
+  // 日志类型
+  Logger,
+  LogLevel,
+  LogFields,
+  // 方法契约类型
+  MethodContract,
+  UntypedApi,
+  ApiMethod,
+  ApiParams,
+  ApiResult,
+  ApiProxy,
+  ProxyCallOptions,
+  TypedRequestOptions,
+  TypedNotificationOptions,
+  TypedStreamOptions,
+  TypedStreamIteratorOptions,
 } from './types';
 
-// 事件常量
-export { SocketEvent } from './types';
+// 重连策略
+export {
+  exponentialBackoff,
+  fixedInterval,
+  retryForever,
+} from './core/reconnect';
+export type {
+  ExponentialBackoffOptions,
+  FixedIntervalOptions,
+  RetryForeverOptions,
+} from './core/reconnect';
+
+// 错误类型
+export {
+  JsonRpcClientError,
+  JsonRpcRemoteError,
+  JsonRpcTimeoutError,
+  JsonRpcConnectionClosedError,
+  JsonRpcAbortError,
+  JsonRpcStreamOverflowError,
+  JsonRpcQueueError,
+  createRemoteError,
+  toErrorResponse,
+} from './core/errors';
+export type {
+  RequestErrorContext,
+  RemoteErrorClass,
+  QueueErrorReason,
+} from './core/errors';
+
+// 日志
+export { createConsoleLogger, redact } from './core/logger';
+
+// 事件常量与错误码
+export { SocketEvent, JsonRpcErrorCode } from './types';
+
+// 传输层
+export {
+  WebSocketTransport,
+  LoopbackTransport,
+  defaultTransport,
+} from './transport';
+
+// 流量录制与回放
+export {
+  TrafficRecorder,
+  TrafficReplay,
+  serializeRecording,
+  parseRecording,
+} from './transport';
+
+// 消息编解码器
+export {
+  registerCodec,
+  getCodec,
+  messagePackCodec,
+  jsonCodec,
+  autoCodec,
+  resolveCodec,
+} from './core/codec';
 
 // MessagePack 编解码
 export { encode, decode, serialize, deserialize } from './pack';
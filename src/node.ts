@@ -0,0 +1,6 @@
+/**
+ * Node.js 入口
+ * 基于 ws 的传输层，通过 @rfkit/json-rpc-websocket/node 引入，不打包进浏览器主入口
+ */
+
+export { NodeWebSocketTransport, nodeTransport } from './transport/node';
@@ -0,0 +1,295 @@
+/**
+ * 服务端连接
+ * 负责单个客户端的出站消息、服务端发起的请求以及进行中请求的中止
+ */
+
+import {
+  JsonRpcAbortError,
+  JsonRpcConnectionClosedError,
+  JsonRpcTimeoutError,
+  createRemoteError,
+} from '../core/errors';
+import { generateUUID } from '../tools';
+import type { Codec } from '../types/codec';
+import {
+  type JsonRpcBatch,
+  JsonRpcErrorCode,
+  type JsonRpcMessage,
+  type JsonRpcResponse,
+  createErrorResponse,
+} from '../types/jsonrpc';
+import type { ServerRequestOptions } from '../types/server';
+import type { RawOutboundData } from '../types/socket';
+import { ConnectionState } from '../types/socket';
+import type { Transport } from '../types/transport';
+
+interface PendingServerRequest {
+  method: string;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * 将无法编码的响应替换为同一 id 的 InternalError 响应（非响应消息返回 null）
+ */
+function toInternalError(message: JsonRpcMessage): JsonRpcResponse | null {
+  if (typeof message !== 'object' || message === null || 'method' in message) {
+    return null;
+  }
+  return createErrorResponse(
+    message.id,
+    JsonRpcErrorCode.InternalError,
+    'Internal error',
+  );
+}
+
+export class ServerConnection<TContext = unknown> {
+  /** 连接 ID */
+  readonly id = generateUUID();
+  /** 连接上下文 */
+  context!: TContext;
+  private pending = new Map<string | number, PendingServerRequest>();
+  private active = new Map<string | number, AbortController>();
+
+  /**
+   * @param transport 底层传输
+   * @param codec 编解码器
+   * @param defaultTimeout 服务端发起请求的默认超时时间
+   * @param reportError 编码或发送失败时的回调
+   */
+  constructor(
+    private readonly transport: Transport,
+    private readonly codec: Codec,
+    private readonly defaultTimeout: number,
+    private readonly reportError: (error: Error) => void = () => undefined,
+  ) {}
+
+  /**
+   * 连接是否打开
+   */
+  get isOpen(): boolean {
+    return this.transport.readyState === ConnectionState.Open;
+  }
+
+  /**
+   * 向该客户端发送通知
+   */
+  notify(method: string, params?: unknown): void {
+    this.send({ jsonrpc: '2.0', method, params });
+  }
+
+  /**
+   * 向该客户端发起请求（由客户端 handle() 注册的处理器应答）
+   */
+  request<TResult = unknown>(
+    method: string,
+    params?: unknown,
+    options: ServerRequestOptions = {},
+  ): Promise<TResult> {
+    if (!this.isOpen) {
+      return Promise.reject(
+        new JsonRpcConnectionClosedError('Connection is not open', { method }),
+      );
+    }
+
+    const id = generateUUID();
+    const { signal, timeout = this.defaultTimeout } = options;
+
+    return new Promise<TResult>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new JsonRpcAbortError('Request aborted', { id, method }));
+        return;
+      }
+
+      const onAbort = () => {
+        this.pending.delete(id);
+        cleanup();
+        reject(new JsonRpcAbortError('Request aborted', { id, method }));
+      };
+      const timeoutId = setTimeout(() => {
+        this.pending.delete(id);
+        cleanup();
+        reject(new JsonRpcTimeoutError(timeout, { id, method }));
+      }, timeout);
+      const cleanup = () => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pending.set(id, {
+        method,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        cleanup,
+      });
+
+      try {
+        this.transport.send(
+          this.codec.encode({ jsonrpc: '2.0', method, params, id }),
+        );
+      } catch (error) {
+        this.pending.delete(id);
+        cleanup();
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * 关闭连接
+   */
+  close(code?: number, reason?: string): void {
+    this.transport.close(code, reason);
+  }
+
+  /**
+   * 不等待关闭握手立即断开
+   */
+  terminate(): void {
+    if (this.transport.terminate) {
+      this.transport.terminate();
+    } else {
+      this.transport.close();
+    }
+  }
+
+  /**
+   * 发送原始数据（不经过编解码）
+   */
+  sendRaw(data: RawOutboundData): void {
+    if (!this.isOpen) {
+      return;
+    }
+    try {
+      this.transport.send(data);
+    } catch (error) {
+      this.reportError(toError(error));
+    }
+  }
+
+  /**
+   * 编码并发送消息（连接已关闭时丢弃）
+   * 响应无法编码时改为回复 InternalError，失败均通过 reportError 上报
+   */
+  send(message: JsonRpcMessage | JsonRpcBatch): void {
+    if (!this.isOpen) {
+      return;
+    }
+    try {
+      this.transport.send(this.encode(message));
+    } catch (error) {
+      this.reportError(toError(error));
+    }
+  }
+
+  /**
+   * 编码消息；响应编码失败时上报错误并将其替换为 InternalError 响应
+   */
+  private encode(message: JsonRpcMessage | JsonRpcBatch): string | Uint8Array {
+    try {
+      return this.codec.encode(message);
+    } catch (error) {
+      const replaced = Array.isArray(message)
+        ? message.map((entry) =>
+            this.encodable(entry) ? entry : toInternalError(entry),
+          )
+        : toInternalError(message);
+      if (
+        replaced === null ||
+        (Array.isArray(replaced) && replaced.includes(null))
+      ) {
+        throw error;
+      }
+      this.reportError(toError(error));
+      return this.codec.encode(replaced as JsonRpcMessage | JsonRpcBatch);
+    }
+  }
+
+  private encodable(message: JsonRpcMessage): boolean {
+    try {
+      this.codec.encode(message);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 结算服务端发起的请求
+   */
+  settle(response: JsonRpcResponse): void {
+    if (response.id === null) {
+      return;
+    }
+
+    const request = this.pending.get(response.id);
+    if (!request) {
+      return;
+    }
+
+    this.pending.delete(response.id);
+    request.cleanup();
+
+    if ('error' in response) {
+      request.reject(
+        createRemoteError(response.error, {
+          id: response.id,
+          method: request.method,
+        }),
+      );
+    } else {
+      request.resolve(response.result);
+    }
+  }
+
+  /**
+   * 登记进行中的入站请求，返回其中止信号
+   */
+  track(id: string | number): AbortSignal {
+    const controller = new AbortController();
+    this.active.set(id, controller);
+    return controller.signal;
+  }
+
+  /**
+   * 移除进行中的入站请求
+   */
+  untrack(id: string | number): void {
+    this.active.delete(id);
+  }
+
+  /**
+   * 中止进行中的入站请求（客户端取消）
+   */
+  cancel(id: string | number): void {
+    this.active.get(id)?.abort();
+    this.active.delete(id);
+  }
+
+  /**
+   * 连接关闭：中止进行中的请求并拒绝服务端发起的请求
+   */
+  dispose(reason: string): void {
+    for (const controller of this.active.values()) {
+      controller.abort();
+    }
+    this.active.clear();
+
+    for (const [id, request] of this.pending) {
+      request.cleanup();
+      request.reject(
+        new JsonRpcConnectionClosedError(reason, {
+          id,
+          method: request.method,
+        }),
+      );
+    }
+    this.pending.clear();
+  }
+}
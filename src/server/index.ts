@@ -0,0 +1,16 @@
+/**
+ * JSON-RPC WebSocket 服务端（Node.js，基于 ws）
+ * 通过 @rfkit/json-rpc-websocket/server 引入，不打包进浏览器主入口
+ */
+
+export { JsonRpcWebSocketServer } from './server';
+export { ServerConnection } from './connection';
+export type {
+  ServerOptions,
+  ConnectionInfo,
+  ServerRequestContext,
+  ServerMethodHandler,
+  ServerNotificationHandler,
+  ServerRequestOptions,
+  ServerEvents,
+} from '../types/server';
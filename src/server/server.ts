@@ -0,0 +1,470 @@
+/**
+ * JSON-RPC WebSocket 服务端
+ * 与客户端使用相同的编解码与错误码：
+ * - 方法注册（返回 AsyncIterable 即为流式响应）
+ * - 连接上下文
+ * - 通知广播（全部或按条件筛选）
+ * - 服务端发起请求
+ */
+
+import type { AddressInfo } from 'node:net';
+import { WebSocketServer } from 'ws';
+import { resolveCodec } from '../core/codec';
+import { toErrorResponse } from '../core/errors';
+import { EventEmitter } from '../core/event-emitter';
+import { NodeWebSocketTransport } from '../transport/node';
+import type { Codec, WireData } from '../types/codec';
+import type {
+  JsonRpcBatch,
+  JsonRpcMessage,
+  JsonRpcNotification,
+  JsonRpcRequest,
+  JsonRpcResponse,
+} from '../types/jsonrpc';
+import {
+  JsonRpcErrorCode,
+  createErrorResponse,
+  createSuccessResponse,
+  isJsonRpcRequest,
+} from '../types/jsonrpc';
+import type {
+  ConnectionInfo,
+  ServerEvents,
+  ServerMethodHandler,
+  ServerNotificationHandler,
+  ServerOptions,
+} from '../types/server';
+import type { Transport } from '../types/transport';
+import { ServerConnection } from './connection';
+
+/**
+ * 读取消息中的追踪上下文
+ */
+function readTrace(
+  message: JsonRpcRequest | JsonRpcNotification,
+  field: string,
+): Record<string, string> | undefined {
+  const trace = (message as unknown as Record<string, unknown>)[field];
+  return typeof trace === 'object' && trace !== null
+    ? (trace as Record<string, string>)
+    : undefined;
+}
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as AsyncIterable<unknown>)[Symbol.asyncIterator] ===
+      'function'
+  );
+}
+
+export class JsonRpcWebSocketServer<TContext = undefined> extends EventEmitter<
+  ServerEvents<TContext>
+> {
+  private wss: WebSocketServer | null = null;
+  private codec: Codec;
+  private connections = new Set<ServerConnection<TContext>>();
+  private methodHandlers = new Map<
+    string,
+    ServerMethodHandler<never, unknown, TContext>
+  >();
+  private notificationHandlers = new Map<
+    string,
+    Set<ServerNotificationHandler<never, TContext>>
+  >();
+  private listening: Promise<void>;
+
+  constructor(private readonly options: ServerOptions<TContext> = {}) {
+    super();
+    const codec = resolveCodec(options.codec ?? 'messagepack');
+    if (!codec) {
+      throw new Error('JsonRpcWebSocketServer requires a codec');
+    }
+    this.codec = codec;
+
+    if (options.port === undefined && !options.server) {
+      this.listening = Promise.resolve();
+      return;
+    }
+
+    const wss = new WebSocketServer({
+      port: options.port,
+      host: options.host,
+      server: options.server,
+      path: options.path,
+    });
+    this.wss = wss;
+    this.listening = options.server
+      ? Promise.resolve()
+      : new Promise((resolve, reject) => {
+          wss.once('listening', resolve);
+          wss.once('error', reject);
+        });
+
+    wss.on('connection', (socket, request) => {
+      void this.accept(NodeWebSocketTransport.wrap(socket), { request });
+    });
+    wss.on('error', (error) => this.emit('error', error));
+  }
+
+  /**
+   * 等待开始监听
+   */
+  ready(): Promise<void> {
+    return this.listening;
+  }
+
+  /**
+   * 监听地址（未监听端口时为 null）
+   */
+  address(): AddressInfo | string | null {
+    return this.wss?.address() ?? null;
+  }
+
+  /**
+   * 当前连接
+   */
+  get clients(): ReadonlySet<ServerConnection<TContext>> {
+    return this.connections;
+  }
+
+  /**
+   * 注册方法处理器（同名覆盖），返回注销函数
+   */
+  handle<TParams = unknown, TResult = unknown>(
+    method: string,
+    handler: ServerMethodHandler<TParams, TResult, TContext>,
+  ): () => void {
+    this.methodHandlers.set(
+      method,
+      handler as ServerMethodHandler<never, unknown, TContext>,
+    );
+    return () => {
+      if (this.methodHandlers.get(method) === handler) {
+        this.methodHandlers.delete(method);
+      }
+    };
+  }
+
+  /**
+   * 监听客户端通知，返回取消监听函数
+   */
+  onNotification<TParams = unknown>(
+    method: string,
+    handler: ServerNotificationHandler<TParams, TContext>,
+  ): () => void {
+    let handlers = this.notificationHandlers.get(method);
+    if (!handlers) {
+      handlers = new Set();
+      this.notificationHandlers.set(method, handlers);
+    }
+
+    const entry = handler as ServerNotificationHandler<never, TContext>;
+    handlers.add(entry);
+    return () => {
+      handlers.delete(entry);
+    };
+  }
+
+  /**
+   * 向所有连接（或满足 filter 的连接）广播通知
+   */
+  broadcast(
+    method: string,
+    params?: unknown,
+    filter?: (connection: ServerConnection<TContext>) => boolean,
+  ): number {
+    let count = 0;
+    for (const connection of this.connections) {
+      if (connection.isOpen && (!filter || filter(connection))) {
+        connection.notify(method, params);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * 接入一个传输（如 LoopbackTransport 或已建立的 ws 连接）
+   */
+  async accept(
+    transport: Transport,
+    info: ConnectionInfo = {},
+  ): Promise<ServerConnection<TContext>> {
+    const connection = new ServerConnection<TContext>(
+      transport,
+      this.codec,
+      this.options.defaultTimeout ?? 15000,
+      (error) => this.emit('error', error),
+    );
+
+    // 上下文创建完成前收到的帧先缓存
+    const backlog: WireData[] = [];
+    let ready = false;
+
+    const opened = new Promise<void>((resolve) => {
+      transport.open({
+        open: () => resolve(),
+        message: (data) => {
+          if (ready) {
+            void this.handleFrame(connection, data);
+          } else {
+            backlog.push(data);
+          }
+        },
+        close: (event) => {
+          connection.dispose('Connection closed');
+          if (this.connections.delete(connection)) {
+            this.emit('disconnect', { connection, ...event });
+          }
+          resolve();
+        },
+        error: () => undefined,
+      });
+    });
+
+    try {
+      await opened;
+      connection.context = (await this.options.context?.(info)) as TContext;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.emit('error', error instanceof Error ? error : new Error(reason));
+      connection.close(1008, reason);
+      return connection;
+    }
+
+    if (!connection.isOpen) {
+      return connection;
+    }
+
+    ready = true;
+    this.connections.add(connection);
+    this.emit('connection', connection);
+
+    for (const data of backlog.splice(0)) {
+      void this.handleFrame(connection, data);
+    }
+
+    return connection;
+  }
+
+  /**
+   * 关闭所有连接并停止监听
+   */
+  async close(code = 1001, reason = 'Server closing'): Promise<void> {
+    for (const connection of this.connections) {
+      connection.close(code, reason);
+    }
+
+    const wss = this.wss;
+    if (wss) {
+      this.wss = null;
+      await new Promise<void>((resolve) => wss.close(() => resolve()));
+    }
+  }
+
+  /**
+   * 解码并处理一帧（批量请求以数组回复）
+   */
+  private async handleFrame(
+    connection: ServerConnection<TContext>,
+    data: WireData,
+  ): Promise<void> {
+    let payload: JsonRpcMessage | JsonRpcBatch;
+    try {
+      payload = this.codec.decode(data);
+    } catch {
+      connection.send(
+        createErrorResponse(null, JsonRpcErrorCode.ParseError, 'Parse error'),
+      );
+      return;
+    }
+
+    const batch = Array.isArray(payload);
+    const messages = Array.isArray(payload) ? payload : [payload];
+
+    if (batch && messages.length === 0) {
+      connection.send(
+        createErrorResponse(
+          null,
+          JsonRpcErrorCode.InvalidRequest,
+          'Invalid request',
+        ),
+      );
+      return;
+    }
+
+    const responses = (
+      await Promise.all(
+        messages.map((message) => this.dispatch(connection, message)),
+      )
+    ).filter((response): response is JsonRpcResponse => response !== null);
+
+    if (responses.length > 0) {
+      connection.send(batch ? responses : responses[0]);
+    }
+  }
+
+  /**
+   * 分发单条消息，返回需要回复的响应
+   */
+  private async dispatch(
+    connection: ServerConnection<TContext>,
+    message: JsonRpcMessage,
+  ): Promise<JsonRpcResponse | null> {
+    if (typeof message !== 'object' || message === null) {
+      return createErrorResponse(
+        null,
+        JsonRpcErrorCode.InvalidRequest,
+        'Invalid request',
+      );
+    }
+
+    this.emit('message', { connection, message });
+
+    if (!('method' in message)) {
+      connection.settle(message);
+      return null;
+    }
+
+    if (typeof message.method !== 'string') {
+      return createErrorResponse(
+        (message as { id?: string | number }).id ?? null,
+        JsonRpcErrorCode.InvalidRequest,
+        'Invalid request',
+      );
+    }
+
+    if (isJsonRpcRequest(message)) {
+      return this.handleRequest(connection, message);
+    }
+
+    this.handleNotification(connection, message);
+    return null;
+  }
+
+  /**
+   * 调用方法处理器
+   */
+  private async handleRequest(
+    connection: ServerConnection<TContext>,
+    request: JsonRpcRequest,
+  ): Promise<JsonRpcResponse | null> {
+    const id = request.id as string | number;
+    const handler = this.methodHandlers.get(request.method);
+
+    if (!handler) {
+      return createErrorResponse(
+        id,
+        JsonRpcErrorCode.MethodNotFound,
+        `Method not found: ${request.method}`,
+      );
+    }
+
+    const signal = connection.track(id);
+    let streaming = false;
+
+    try {
+      const result = await handler(request.params as never, {
+        id,
+        method: request.method,
+        connection,
+        context: connection.context,
+        signal,
+        trace: readTrace(request, this.options.traceField ?? 'trace'),
+      });
+
+      if (isAsyncIterable(result)) {
+        streaming = true;
+        void this.pipeStream(connection, id, result, signal);
+        return null;
+      }
+
+      return signal.aborted ? null : createSuccessResponse(id, result ?? null);
+    } catch (error) {
+      return signal.aborted ? null : toErrorResponse(id, error);
+    } finally {
+      if (!streaming) {
+        connection.untrack(id);
+      }
+    }
+  }
+
+  /**
+   * 逐条推送流式结果（与客户端 stream() 按 id 路由），结束时发送结束标记
+   */
+  private async pipeStream(
+    connection: ServerConnection<TContext>,
+    id: string | number,
+    iterable: AsyncIterable<unknown>,
+    signal: AbortSignal,
+  ): Promise<void> {
+    const iterator = iterable[Symbol.asyncIterator]();
+    const stop = () => {
+      void iterator.return?.();
+    };
+    signal.addEventListener('abort', stop, { once: true });
+
+    try {
+      while (!signal.aborted) {
+        const { value, done } = await iterator.next();
+        if (done || signal.aborted) {
+          break;
+        }
+        connection.send(createSuccessResponse(id, value));
+      }
+
+      if (!signal.aborted) {
+        connection.send(
+          createSuccessResponse(id, this.options.streamEnd ?? null),
+        );
+      }
+    } catch (error) {
+      if (!signal.aborted) {
+        connection.send(toErrorResponse(id, error));
+      }
+    } finally {
+      signal.removeEventListener('abort', stop);
+      connection.untrack(id);
+    }
+  }
+
+  /**
+   * 处理客户端通知（包括取消通知）
+   */
+  private handleNotification(
+    connection: ServerConnection<TContext>,
+    notification: JsonRpcNotification,
+  ): void {
+    const { cancelMethod } = this.options;
+    if (cancelMethod && notification.method === cancelMethod) {
+      const id = (notification.params as { id?: string | number } | undefined)
+        ?.id;
+      if (id !== undefined) {
+        connection.cancel(id);
+      }
+      return;
+    }
+
+    const handlers = this.notificationHandlers.get(notification.method);
+    if (!handlers) {
+      return;
+    }
+
+    for (const handler of handlers) {
+      try {
+        handler(notification.params as never, {
+          method: notification.method,
+          connection,
+          trace: readTrace(notification, this.options.traceField ?? 'trace'),
+        });
+      } catch (error) {
+        this.emit(
+          'error',
+          error instanceof Error ? error : new Error(String(error)),
+        );
+      }
+    }
+  }
+}
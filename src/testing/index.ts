@@ -0,0 +1,15 @@
+/**
+ * 测试工具
+ * 进程内可编排的模拟服务端，用于测试基于 JsonRpcWebSocketClient 的应用
+ */
+
+export { MockJsonRpcServer } from './mock-server';
+export type {
+  MockServerOptions,
+  MockError,
+  MockReplyOptions,
+  MockStreamOptions,
+  MockHandler,
+  RecordedCall,
+  CallExpectation,
+} from './types';
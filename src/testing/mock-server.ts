@@ -0,0 +1,472 @@
+/**
+ * 模拟服务端
+ * 基于 JsonRpcWebSocketServer，预设响应、模拟延迟与异常，并记录收到的调用
+ */
+
+import {
+  JsonRpcErrorCode,
+  JsonRpcRemoteError,
+  LoopbackTransport,
+} from '../index';
+import type {
+  RawOutboundData,
+  Transport,
+  TransportFactory,
+  TransportHandlers,
+} from '../index';
+import { JsonRpcWebSocketServer } from '../server';
+import type { ServerConnection, ServerRequestContext } from '../server';
+import { ConnectionState } from '../types/socket';
+import type {
+  CallExpectation,
+  MockError,
+  MockHandler,
+  MockReplyOptions,
+  MockServerOptions,
+  MockStreamOptions,
+  RecordedCall,
+} from './types';
+
+/**
+ * 客户端一侧的回环传输：服务端登记连接（上下文创建完成）后才通知打开，
+ * 使 connect() 完成后即可 push() / request()
+ */
+class AcceptedTransport implements Transport {
+  private announced = false;
+
+  constructor(
+    private readonly inner: LoopbackTransport,
+    private readonly accepted: Promise<unknown>,
+  ) {}
+
+  get readyState(): ConnectionState {
+    const state = this.inner.readyState;
+    return state === ConnectionState.Open && !this.announced
+      ? ConnectionState.Connecting
+      : state;
+  }
+
+  open(handlers: TransportHandlers): void {
+    this.inner.open({
+      ...handlers,
+      open: (event) => {
+        void this.accepted.then(() => {
+          if (this.inner.readyState === ConnectionState.Open) {
+            this.announced = true;
+            handlers.open(event);
+          }
+        });
+      },
+    });
+  }
+
+  send(data: RawOutboundData): void {
+    this.inner.send(data);
+  }
+
+  close(code?: number, reason?: string): void {
+    this.inner.close(code, reason);
+  }
+
+  terminate(): void {
+    this.inner.terminate();
+  }
+}
+
+interface MockReply {
+  handler: MockHandler;
+  delay?: number;
+  remaining?: number;
+}
+
+/**
+ * 等待指定时间，信号中止时提前结束
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  if (ms <= 0) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve) => {
+    const timeoutId = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+
+  if (
+    typeof a !== 'object' ||
+    typeof b !== 'object' ||
+    a === null ||
+    b === null ||
+    Array.isArray(a) !== Array.isArray(b)
+  ) {
+    return false;
+  }
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return (
+    keysA.length === keysB.length &&
+    keysA.every((key) =>
+      isDeepEqual(
+        (a as Record<string, unknown>)[key],
+        (b as Record<string, unknown>)[key],
+      ),
+    )
+  );
+}
+
+export class MockJsonRpcServer {
+  /** 收到的请求与通知（按到达顺序） */
+  readonly calls: RecordedCall[] = [];
+  private server: JsonRpcWebSocketServer;
+  private replies = new Map<string, MockReply[]>();
+  private unregisters = new Map<string, () => void>();
+  private callWaiters = new Set<(call: RecordedCall) => void>();
+
+  /**
+   * 启动模拟服务端（默认监听 localhost 随机端口）
+   */
+  static async start(
+    options: MockServerOptions = {},
+  ): Promise<MockJsonRpcServer> {
+    const mock = new MockJsonRpcServer(options);
+    await mock.server.ready();
+    return mock;
+  }
+
+  private constructor(private readonly options: MockServerOptions) {
+    this.server = new JsonRpcWebSocketServer({
+      port: options.listen === false ? undefined : 0,
+      host: '127.0.0.1',
+      codec: options.codec,
+      cancelMethod: options.cancelMethod,
+    });
+
+    this.server.on('message', ({ connection, message }) => {
+      if (!('method' in message) || typeof message.method !== 'string') {
+        return;
+      }
+
+      const call: RecordedCall = {
+        kind:
+          'id' in message && message.id !== undefined
+            ? 'request'
+            : 'notification',
+        method: message.method,
+        params: message.params,
+        id: 'id' in message ? (message.id ?? undefined) : undefined,
+        connectionId: connection.id,
+        timestamp: Date.now(),
+      };
+      this.calls.push(call);
+
+      for (const waiter of this.callWaiters) {
+        waiter(call);
+      }
+    });
+  }
+
+  /**
+   * 连接地址
+   */
+  get url(): string {
+    const address = this.server.address();
+    if (!address || typeof address === 'string') {
+      throw new Error('MockJsonRpcServer is not listening');
+    }
+    return `ws://127.0.0.1:${address.port}`;
+  }
+
+  /**
+   * 内存回环传输工厂：作为客户端 transport 选项使用，不经过网络
+   */
+  readonly transport: TransportFactory = () => {
+    const [clientEnd, serverEnd] = LoopbackTransport.pair();
+    return new AcceptedTransport(clientEnd, this.server.accept(serverEnd));
+  };
+
+  /**
+   * 当前连接
+   */
+  get connections(): ServerConnection[] {
+    return [...this.server.clients] as ServerConnection[];
+  }
+
+  /**
+   * 预设成功响应
+   */
+  respond(method: string, result: unknown, options?: MockReplyOptions): this {
+    return this.handle(method, () => result, options);
+  }
+
+  /**
+   * 预设错误响应
+   */
+  fail(method: string, error: MockError, options?: MockReplyOptions): this {
+    return this.handle(
+      method,
+      () => {
+        throw new JsonRpcRemoteError(error);
+      },
+      options,
+    );
+  }
+
+  /**
+   * 预设流式响应：逐条推送 items 后发送结束标记（或以 error 结束）
+   */
+  stream(
+    method: string,
+    items: unknown[],
+    options: MockStreamOptions = {},
+  ): this {
+    const { interval = 0, error } = options;
+    return this.handle(
+      method,
+      async function* (_params, { signal }) {
+        for (const [index, item] of items.entries()) {
+          if (index > 0) {
+            await delay(interval, signal);
+          }
+          yield item;
+        }
+        if (error) {
+          throw new JsonRpcRemoteError(error);
+        }
+      },
+      options,
+    );
+  }
+
+  /**
+   * 预设自定义处理器（可返回 AsyncIterable 以流式响应）
+   */
+  handle(
+    method: string,
+    handler: MockHandler,
+    options: MockReplyOptions = {},
+  ): this {
+    let replies = this.replies.get(method);
+    if (!replies) {
+      replies = [];
+      this.replies.set(method, replies);
+      this.unregisters.set(
+        method,
+        this.server.handle(method, (params, context) =>
+          this.reply(method, params, context as ServerRequestContext),
+        ),
+      );
+    }
+
+    replies.push({
+      handler,
+      delay: options.delay,
+      remaining: options.times,
+    });
+    return this;
+  }
+
+  /**
+   * 向所有客户端推送通知
+   */
+  push(method: string, params?: unknown): void {
+    this.server.broadcast(method, params);
+  }
+
+  /**
+   * 向客户端发起请求（默认第一个连接）
+   */
+  request<TResult = unknown>(
+    method: string,
+    params?: unknown,
+    connection: ServerConnection | undefined = this.connections[0],
+  ): Promise<TResult> {
+    if (!connection) {
+      return Promise.reject(new Error('MockJsonRpcServer has no connections'));
+    }
+    return connection.request<TResult>(method, params);
+  }
+
+  /**
+   * 向所有客户端发送无法解码的帧
+   */
+  sendMalformed(data: RawOutboundData = Uint8Array.of(0xc1)): void {
+    for (const connection of this.connections) {
+      connection.sendRaw(data);
+    }
+  }
+
+  /**
+   * 正常关闭所有连接（客户端会按配置重连）
+   */
+  disconnect(code = 1000, reason = ''): void {
+    for (const connection of this.connections) {
+      connection.close(code, reason);
+    }
+  }
+
+  /**
+   * 不经关闭握手断开所有连接，模拟网络中断
+   */
+  terminate(): void {
+    for (const connection of this.connections) {
+      connection.terminate();
+    }
+  }
+
+  /**
+   * 某方法收到的调用
+   */
+  callsTo(method: string): RecordedCall[] {
+    return this.calls.filter((call) => call.method === method);
+  }
+
+  /**
+   * 断言方法被调用（可限定次数与参数），不满足时抛出错误
+   */
+  assertCalled(method: string, expectation: CallExpectation = {}): void {
+    const calls = this.callsTo(method);
+
+    if (
+      expectation.times === undefined
+        ? calls.length === 0
+        : calls.length !== expectation.times
+    ) {
+      throw new Error(
+        `Expected "${method}" to be called ${expectation.times === undefined ? 'at least once' : `${expectation.times} time(s)`}, but it was called ${calls.length} time(s)`,
+      );
+    }
+
+    if (
+      'params' in expectation &&
+      !calls.some((call) => isDeepEqual(call.params, expectation.params))
+    ) {
+      throw new Error(
+        `Expected "${method}" to be called with ${JSON.stringify(expectation.params)}, but received ${JSON.stringify(calls.map((call) => call.params))}`,
+      );
+    }
+  }
+
+  /**
+   * 断言方法未被调用
+   */
+  assertNotCalled(method: string): void {
+    this.assertCalled(method, { times: 0 });
+  }
+
+  /**
+   * 等待方法被调用（已有调用时立即返回第一次调用）
+   */
+  waitForCall(method: string, timeout = 1000): Promise<RecordedCall> {
+    const existing = this.calls.find((call) => call.method === method);
+    if (existing) {
+      return Promise.resolve(existing);
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter = (call: RecordedCall) => {
+        if (call.method === method) {
+          clearTimeout(timeoutId);
+          this.callWaiters.delete(waiter);
+          resolve(call);
+        }
+      };
+      const timeoutId = setTimeout(() => {
+        this.callWaiters.delete(waiter);
+        reject(
+          new Error(`Timed out waiting for "${method}" after ${timeout}ms`),
+        );
+      }, timeout);
+      this.callWaiters.add(waiter);
+    });
+  }
+
+  /**
+   * 等待客户端连接（已有连接时立即返回）
+   */
+  waitForConnection(timeout = 1000): Promise<ServerConnection> {
+    const [existing] = this.connections;
+    if (existing) {
+      return Promise.resolve(existing);
+    }
+
+    return new Promise((resolve, reject) => {
+      const off = this.server.on('connection', (connection) => {
+        clearTimeout(timeoutId);
+        off();
+        resolve(connection as ServerConnection);
+      });
+      const timeoutId = setTimeout(() => {
+        off();
+        reject(
+          new Error(`Timed out waiting for a connection after ${timeout}ms`),
+        );
+      }, timeout);
+    });
+  }
+
+  /**
+   * 清空调用记录与预设响应
+   */
+  reset(): void {
+    this.calls.length = 0;
+    this.replies.clear();
+    for (const unregister of this.unregisters.values()) {
+      unregister();
+    }
+    this.unregisters.clear();
+  }
+
+  /**
+   * 关闭模拟服务端
+   */
+  close(): Promise<void> {
+    return this.server.close();
+  }
+
+  /**
+   * 选取并执行预设响应：优先使用限次响应，其次使用最后注册的不限次响应
+   */
+  private async reply(
+    method: string,
+    params: unknown,
+    context: ServerRequestContext,
+  ): Promise<unknown> {
+    const replies = this.replies.get(method) ?? [];
+    let reply = replies.find((entry) => entry.remaining !== undefined);
+
+    if (!reply) {
+      for (let i = replies.length - 1; i >= 0; i--) {
+        if (replies[i].remaining === undefined) {
+          reply = replies[i];
+          break;
+        }
+      }
+    }
+
+    if (!reply) {
+      throw new JsonRpcRemoteError({
+        code: JsonRpcErrorCode.MethodNotFound,
+        message: `Method not found: ${method}`,
+      });
+    }
+
+    if (reply.remaining !== undefined && --reply.remaining <= 0) {
+      replies.splice(replies.indexOf(reply), 1);
+    }
+
+    await delay(reply.delay ?? this.options.latency ?? 0, context.signal);
+    return reply.handler(params, context);
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * 测试工具类型定义
+ */
+
+import type { Codec } from '../index';
+import type { ServerRequestContext } from '../server';
+
+/**
+ * 模拟服务端配置
+ */
+export interface MockServerOptions {
+  /** 所有响应的默认延迟（毫秒） */
+  latency?: number;
+  /** 编解码器或已注册的名称（默认 'messagepack'） */
+  codec?: string | Codec;
+  /** 客户端取消通知方法名（与客户端 cancelMethod 一致） */
+  cancelMethod?: string;
+  /** 是否监听 localhost 随机端口（默认 true），关闭时只能通过 transport 接入 */
+  listen?: boolean;
+}
+
+/**
+ * 预设的错误响应
+ */
+export interface MockError {
+  /** 错误码 */
+  code: number;
+  /** 错误信息 */
+  message: string;
+  /** 错误数据 */
+  data?: unknown;
+}
+
+/**
+ * 预设响应配置
+ */
+export interface MockReplyOptions {
+  /** 响应延迟（毫秒），覆盖默认延迟 */
+  delay?: number;
+  /** 使用次数，用完后移除（默认不限，后注册的不限次响应覆盖先注册的） */
+  times?: number;
+}
+
+/**
+ * 预设的流式响应配置
+ */
+export interface MockStreamOptions extends MockReplyOptions {
+  /** 相邻两条数据的间隔（毫秒） */
+  interval?: number;
+  /** 推送完数据后以该错误结束 */
+  error?: MockError;
+}
+
+/**
+ * 模拟方法处理器
+ */
+export type MockHandler = (
+  params: unknown,
+  context: ServerRequestContext,
+) => unknown;
+
+/**
+ * 记录的调用
+ */
+export interface RecordedCall {
+  /** 调用类型 */
+  kind: 'request' | 'notification';
+  /** 方法名 */
+  method: string;
+  /** 参数 */
+  params: unknown;
+  /** 请求 ID（通知为空） */
+  id?: string | number;
+  /** 连接 ID */
+  connectionId: string;
+  /** 收到时间 */
+  timestamp: number;
+}
+
+/**
+ * 调用断言条件
+ */
+export interface CallExpectation {
+  /** 调用次数 */
+  times?: number;
+  /** 参数（深比较，任意一次调用匹配即可） */
+  params?: unknown;
+}
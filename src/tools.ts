@@ -37,3 +37,29 @@ export const generateId = (length = 8): string => {
 
   return result;
 };
+
+/**
+ * 延迟指定毫秒数，可被中止信号提前结束
+ * @param {number} ms 延迟毫秒数
+ * @param {AbortSignal} [signal] 中止信号，中止时以 signal.reason 拒绝
+ * @returns {Promise<void>}
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal?.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
@@ -0,0 +1,27 @@
+/**
+ * 传输层实现
+ */
+
+export { WebSocketTransport } from './websocket';
+export { LoopbackTransport } from './loopback';
+export {
+  TrafficRecorder,
+  serializeRecording,
+  parseRecording,
+} from './recorder';
+export { TrafficReplay } from './replay';
+
+import type { TransportFactory } from '../types/transport';
+import { WebSocketTransport } from './websocket';
+
+/**
+ * 默认传输：使用全局 WebSocket（不依赖 ws，无全局 WebSocket 的环境需使用 node 入口的 nodeTransport）
+ */
+export const defaultTransport: TransportFactory = (url, protocols) => {
+  if (typeof WebSocket === 'undefined') {
+    throw new Error(
+      'Global WebSocket is not available; use nodeTransport from "@rfkit/json-rpc-websocket/node"',
+    );
+  }
+  return new WebSocketTransport(url, protocols);
+};
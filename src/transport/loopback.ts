@@ -0,0 +1,109 @@
+/**
+ * 内存回环传输
+ * 成对创建，一端发送的数据由另一端接收，不经过网络（用于测试与同进程通信）
+ */
+
+import type { WireData } from '../types/codec';
+import type { RawOutboundData } from '../types/socket';
+import { ConnectionState } from '../types/socket';
+import type { Transport, TransportHandlers } from '../types/transport';
+
+/**
+ * 复制出站数据，避免发送方后续修改影响接收方
+ */
+function toWireData(data: RawOutboundData): WireData {
+  if (typeof data === 'string') {
+    return data;
+  }
+  if (data instanceof ArrayBuffer) {
+    return data.slice(0);
+  }
+  if (ArrayBuffer.isView(data)) {
+    const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    return bytes.slice().buffer;
+  }
+  throw new TypeError('LoopbackTransport cannot send Blob data');
+}
+
+export class LoopbackTransport implements Transport {
+  private peer: LoopbackTransport | null = null;
+  private handlers: TransportHandlers | null = null;
+  private state = ConnectionState.Connecting;
+
+  /**
+   * 创建一对互相连接的回环传输
+   */
+  static pair(): [LoopbackTransport, LoopbackTransport] {
+    const a = new LoopbackTransport();
+    const b = new LoopbackTransport();
+    a.peer = b;
+    b.peer = a;
+    return [a, b];
+  }
+
+  get readyState(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * 两端都调用 open 后同时进入打开状态
+   */
+  open(handlers: TransportHandlers): void {
+    this.handlers = handlers;
+    const peer = this.peer;
+
+    if (!peer || peer.state === ConnectionState.Closed) {
+      this.finish(1006, 'Peer closed');
+      return;
+    }
+
+    if (peer.handlers) {
+      queueMicrotask(() => {
+        for (const side of [peer, this]) {
+          if (side.state === ConnectionState.Connecting) {
+            side.state = ConnectionState.Open;
+            side.handlers?.open();
+          }
+        }
+      });
+    }
+  }
+
+  send(data: RawOutboundData): void {
+    if (this.state !== ConnectionState.Open) {
+      throw new Error('LoopbackTransport is not open');
+    }
+
+    const wireData = toWireData(data);
+    const peer = this.peer;
+    queueMicrotask(() => {
+      if (peer?.state === ConnectionState.Open) {
+        peer.handlers?.message(wireData);
+      }
+    });
+  }
+
+  /**
+   * 关闭两端
+   */
+  close(code = 1000, reason = ''): void {
+    this.finish(code, reason);
+    this.peer?.finish(code, reason);
+  }
+
+  terminate(): void {
+    this.finish(1006, '');
+    this.peer?.finish(1006, '');
+  }
+
+  private finish(code: number, reason: string): void {
+    if (this.state === ConnectionState.Closed) {
+      return;
+    }
+
+    this.state = ConnectionState.Closed;
+    queueMicrotask(() => {
+      this.handlers?.close({ code, reason, wasClean: code !== 1006 });
+    });
+  }
+}
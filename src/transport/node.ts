@@ -0,0 +1,119 @@
+/**
+ * Node.js ws 传输
+ * 支持 ping/pong 心跳与强制断开
+ */
+
+import WebSocket from 'ws';
+import { JsonRpcTimeoutError } from '../core/errors';
+import type { RawOutboundData } from '../types/socket';
+import { ConnectionState } from '../types/socket';
+import type {
+  Transport,
+  TransportFactory,
+  TransportHandlers,
+} from '../types/transport';
+
+const textDecoder = new TextDecoder();
+
+export class NodeWebSocketTransport implements Transport {
+  private ws: WebSocket | null = null;
+
+  /**
+   * @param url WebSocket URL
+   * @param protocols WebSocket 协议
+   * @param options 透传给 ws 的连接配置（如 headers、agent）
+   */
+  constructor(
+    private readonly url: string,
+    private readonly protocols?: string | string[],
+    private readonly options?: WebSocket.ClientOptions,
+  ) {}
+
+  /**
+   * 包装已建立的 ws 连接（如 WebSocketServer 接受的连接）
+   */
+  static wrap(socket: WebSocket): NodeWebSocketTransport {
+    const transport = new NodeWebSocketTransport(socket.url ?? '');
+    transport.ws = socket;
+    return transport;
+  }
+
+  get readyState(): ConnectionState {
+    return this.ws?.readyState ?? ConnectionState.Connecting;
+  }
+
+  open(handlers: TransportHandlers): void {
+    const ws = this.ws ?? new WebSocket(this.url, this.protocols, this.options);
+    ws.binaryType = 'arraybuffer';
+
+    if (ws.readyState === WebSocket.OPEN) {
+      queueMicrotask(() => handlers.open());
+    } else {
+      ws.on('open', () => handlers.open());
+    }
+
+    ws.on('message', (data: ArrayBuffer, isBinary) => {
+      handlers.message(isBinary ? data : textDecoder.decode(data));
+    });
+    ws.on('close', (code, reason) => {
+      handlers.close({
+        code,
+        reason: reason.toString(),
+        wasClean: code !== 1006,
+      });
+    });
+    ws.on('error', (error) => {
+      handlers.error(Object.assign(new Event('error'), { error }));
+    });
+    this.ws = ws;
+  }
+
+  send(data: RawOutboundData): void {
+    if (data instanceof Blob) {
+      throw new TypeError('NodeWebSocketTransport cannot send Blob data');
+    }
+    this.ws?.send(data);
+  }
+
+  close(code?: number, reason?: string): void {
+    this.ws?.close(code, reason);
+  }
+
+  ping(timeout: number): Promise<void> {
+    const ws = this.ws;
+    if (!ws) {
+      return Promise.reject(new Error('Transport is not open'));
+    }
+
+    return new Promise((resolve, reject) => {
+      // 先发送 ping，失败时不留下监听器与定时器；pong 只会异步到达
+      try {
+        ws.ping();
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      const onPong = () => {
+        clearTimeout(timeoutId);
+        resolve();
+      };
+      const timeoutId = setTimeout(() => {
+        ws.off('pong', onPong);
+        reject(new JsonRpcTimeoutError(timeout, { method: 'ping' }));
+      }, timeout);
+
+      ws.once('pong', onPong);
+    });
+  }
+
+  terminate(): void {
+    this.ws?.terminate();
+  }
+}
+
+/**
+ * Node.js ws 传输工厂，用作客户端 transport 选项
+ */
+export const nodeTransport: TransportFactory = (url, protocols) =>
+  new NodeWebSocketTransport(url, protocols);
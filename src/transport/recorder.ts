@@ -0,0 +1,305 @@
+/**
+ * 流量录制
+ * 包装传输工厂，记录每条连接的打开、关闭与收发帧（原始数据、解码结果、方向与时间戳），
+ * 可导出为 NDJSON 或 MessagePack，供 TrafficReplay 回放
+ */
+
+import { resolveCodec } from '../core/codec';
+import { decode, encode } from '../pack';
+import type { Codec, WireData } from '../types/codec';
+import type {
+  FrameDirection,
+  RecorderOptions,
+  RecordingFormat,
+  TrafficEntry,
+  TrafficFrameEntry,
+} from '../types/recording';
+import type { ConnectionState, RawOutboundData } from '../types/socket';
+import type {
+  Transport,
+  TransportFactory,
+  TransportHandlers,
+} from '../types/transport';
+
+/** base64 编码时每次转换的字节数，避免参数过多 */
+const BASE64_CHUNK = 0x8000;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * 复制帧数据，避免后续修改影响记录（Blob 无法同步读取，返回 null）
+ */
+function toRecordedData(
+  data: WireData | RawOutboundData,
+): string | Uint8Array | null {
+  if (typeof data === 'string') {
+    return data;
+  }
+  if (data instanceof ArrayBuffer) {
+    return new Uint8Array(data.slice(0));
+  }
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(
+      data.buffer,
+      data.byteOffset,
+      data.byteLength,
+    ).slice();
+  }
+  return null;
+}
+
+/**
+ * 解码记录的帧，无法解码时返回 undefined
+ */
+export function decodeRecordedFrame(
+  data: string | Uint8Array,
+  codec: Codec,
+): unknown {
+  try {
+    return codec.decode(
+      typeof data === 'string' ? data : (data.slice().buffer as ArrayBuffer),
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * JSON 无法表示的解码值：bigint 转为字符串，二进制转为字节数组
+ */
+function jsonReplacer(_key: string, value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (ArrayBuffer.isView(value)) {
+    return Array.from(
+      new Uint8Array(value.buffer, value.byteOffset, value.byteLength),
+    );
+  }
+  return value;
+}
+
+/**
+ * 将流量记录序列化为 NDJSON（二进制帧以 base64 编码）或 MessagePack
+ */
+export function serializeRecording(
+  entries: readonly TrafficEntry[],
+  format: 'ndjson',
+): string;
+export function serializeRecording(
+  entries: readonly TrafficEntry[],
+  format: 'messagepack',
+): Uint8Array;
+export function serializeRecording(
+  entries: readonly TrafficEntry[],
+  format: RecordingFormat,
+): string | Uint8Array;
+export function serializeRecording(
+  entries: readonly TrafficEntry[],
+  format: RecordingFormat,
+): string | Uint8Array {
+  if (format === 'messagepack') {
+    return encode(entries as never);
+  }
+
+  return entries
+    .map((entry) =>
+      JSON.stringify(
+        entry.type === 'frame' && entry.data instanceof Uint8Array
+          ? { ...entry, data: toBase64(entry.data), encoding: 'base64' }
+          : entry,
+        jsonReplacer,
+      ),
+    )
+    .join('\n');
+}
+
+/**
+ * 解析 serializeRecording 的输出：字符串按 NDJSON 解析，二进制按 MessagePack 解析
+ */
+export function parseRecording(data: string | Uint8Array): TrafficEntry[] {
+  if (typeof data !== 'string') {
+    const entries = decode<TrafficEntry[]>(data);
+    if (!Array.isArray(entries)) {
+      throw new TypeError('Invalid MessagePack recording');
+    }
+    return entries;
+  }
+
+  return data
+    .split('\n')
+    .filter((line) => line.trim() !== '')
+    .map((line) => {
+      const { encoding, ...entry } = JSON.parse(line) as TrafficEntry & {
+        encoding?: 'base64';
+      };
+      if (
+        entry.type === 'frame' &&
+        encoding === 'base64' &&
+        typeof entry.data === 'string'
+      ) {
+        entry.data = fromBase64(entry.data);
+      }
+      return entry;
+    });
+}
+
+/**
+ * 录制中的传输：转发到底层传输并记录事件
+ */
+class RecordingTransport implements Transport {
+  readonly ping?: (timeout: number) => Promise<void>;
+  readonly terminate?: () => void;
+
+  constructor(
+    private readonly inner: Transport,
+    private readonly url: string,
+    private readonly connection: number,
+    private readonly recorder: (entry: TrafficEntry) => void,
+    private readonly codec: Codec | null,
+  ) {
+    if (inner.ping) {
+      this.ping = (timeout) => inner.ping?.(timeout) ?? Promise.resolve();
+    }
+    if (inner.terminate) {
+      this.terminate = () => inner.terminate?.();
+    }
+  }
+
+  get readyState(): ConnectionState {
+    return this.inner.readyState;
+  }
+
+  open(handlers: TransportHandlers): void {
+    const { connection } = this;
+    this.inner.open({
+      open: (event) => {
+        this.recorder({
+          type: 'open',
+          connection,
+          timestamp: Date.now(),
+          url: this.url,
+        });
+        handlers.open(event);
+      },
+      message: (data) => {
+        this.recorder(this.frame('inbound', data));
+        handlers.message(data);
+      },
+      close: (event) => {
+        this.recorder({
+          type: 'close',
+          connection,
+          timestamp: Date.now(),
+          code: event.code,
+          reason: event.reason,
+          wasClean: event.wasClean,
+        });
+        handlers.close(event);
+      },
+      error: (event) => handlers.error(event),
+    });
+  }
+
+  send(data: RawOutboundData): void {
+    this.inner.send(data);
+    this.recorder(this.frame('outbound', data));
+  }
+
+  close(code?: number, reason?: string): void {
+    this.inner.close(code, reason);
+  }
+
+  private frame(
+    direction: FrameDirection,
+    data: WireData | RawOutboundData,
+  ): TrafficFrameEntry {
+    const recorded = toRecordedData(data);
+    const entry: TrafficFrameEntry = {
+      type: 'frame',
+      connection: this.connection,
+      timestamp: Date.now(),
+      direction,
+      data: recorded,
+    };
+
+    if (this.codec && recorded !== null) {
+      const decoded = decodeRecordedFrame(recorded, this.codec);
+      if (decoded !== undefined) {
+        entry.decoded = decoded;
+      }
+    }
+    return entry;
+  }
+}
+
+export class TrafficRecorder {
+  private records: TrafficEntry[] = [];
+  private connections = 0;
+  private codec: Codec | null;
+  private maxEntries: number;
+
+  constructor(options: RecorderOptions = {}) {
+    this.codec = resolveCodec(options.codec ?? 'auto');
+    this.maxEntries = options.maxEntries ?? 10000;
+  }
+
+  /**
+   * 已录制的记录（按发生顺序）
+   */
+  get entries(): readonly TrafficEntry[] {
+    return this.records;
+  }
+
+  /**
+   * 包装传输工厂，作为客户端 transport 选项使用
+   */
+  wrap(factory: TransportFactory): TransportFactory {
+    return (url, protocols) =>
+      new RecordingTransport(
+        factory(url, protocols),
+        url,
+        this.connections++,
+        (entry) => this.record(entry),
+        this.codec,
+      );
+  }
+
+  /**
+   * 导出录制内容
+   */
+  export(format?: 'ndjson'): string;
+  export(format: 'messagepack'): Uint8Array;
+  export(format: RecordingFormat = 'ndjson'): string | Uint8Array {
+    return serializeRecording(this.records, format);
+  }
+
+  /**
+   * 清空记录（连接序号继续递增）
+   */
+  clear(): void {
+    this.records = [];
+  }
+
+  private record(entry: TrafficEntry): void {
+    this.records.push(entry);
+    if (this.maxEntries > 0 && this.records.length > this.maxEntries) {
+      this.records.splice(0, this.records.length - this.maxEntries);
+    }
+  }
+}
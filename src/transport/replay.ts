@@ -0,0 +1,355 @@
+/**
+ * 流量回放
+ * 将 TrafficRecorder 录制的会话按原有间隔回放给客户端，用于复现与时序相关的入站消息处理：
+ * - 每次创建传输对应录制中的下一条连接（重连时回放下一条连接）
+ * - 入站帧与连接关闭按录制顺序与间隔送达，出站帧只用于对应请求 ID
+ * - 回放期间客户端发出的帧记录在 sent 中
+ */
+
+import { jsonCodec, messagePackCodec, resolveCodec } from '../core/codec';
+import type { Codec, WireData } from '../types/codec';
+import type {
+  ReplayOptions,
+  TrafficEntry,
+  TrafficFrameEntry,
+} from '../types/recording';
+import type { RawOutboundData } from '../types/socket';
+import { ConnectionState } from '../types/socket';
+import type {
+  Transport,
+  TransportFactory,
+  TransportHandlers,
+} from '../types/transport';
+import { decodeRecordedFrame, parseRecording } from './recorder';
+
+type MessageId = string | number;
+
+/**
+ * 回放传输共享的配置与回调
+ */
+interface ReplayContext {
+  speed: number;
+  remapIds: boolean;
+  codec: Codec | null;
+  sent(entry: TrafficFrameEntry): void;
+  finish(connection: number): void;
+}
+
+/**
+ * 未指定编解码器时按帧类型选择：文本帧 JSON，二进制帧 MessagePack
+ */
+function codecFor(data: string | Uint8Array, codec: Codec | null): Codec {
+  return codec ?? (typeof data === 'string' ? jsonCodec : messagePackCodec);
+}
+
+/**
+ * 解码结果中带方法名与 ID 的请求
+ */
+function requestsIn(decoded: unknown): { method: string; id: MessageId }[] {
+  const messages = Array.isArray(decoded) ? decoded : [decoded];
+  return messages.filter(
+    (message): message is { method: string; id: MessageId } =>
+      typeof message === 'object' &&
+      message !== null &&
+      typeof message.method === 'string' &&
+      (typeof message.id === 'string' || typeof message.id === 'number'),
+  );
+}
+
+function toWireData(data: string | Uint8Array): WireData {
+  return typeof data === 'string' ? data : (data.slice().buffer as ArrayBuffer);
+}
+
+/**
+ * 回放单条录制连接的传输
+ */
+class ReplayTransport implements Transport {
+  private handlers: TransportHandlers | null = null;
+  private state = ConnectionState.Connecting;
+  private timeoutId: ReturnType<typeof setTimeout> | null = null;
+  private cursor = 0;
+  private inbound: TrafficEntry[];
+  /** 录制中按方法名排列的请求 ID，按发送顺序与回放时的请求对应 */
+  private expected = new Map<string, MessageId[]>();
+  /** 录制 ID → 回放 ID */
+  private ids = new Map<MessageId, MessageId>();
+
+  constructor(
+    entries: readonly TrafficEntry[],
+    private readonly connection: number,
+    private readonly context: ReplayContext,
+  ) {
+    this.inbound = entries.filter(
+      (entry) => entry.type !== 'frame' || entry.direction === 'inbound',
+    );
+
+    if (context.remapIds) {
+      for (const entry of entries) {
+        if (
+          entry.type !== 'frame' ||
+          entry.direction !== 'outbound' ||
+          entry.data === null
+        ) {
+          continue;
+        }
+        const decoded =
+          entry.decoded ??
+          decodeRecordedFrame(entry.data, codecFor(entry.data, context.codec));
+        for (const { method, id } of requestsIn(decoded)) {
+          this.expected.set(method, [...(this.expected.get(method) ?? []), id]);
+        }
+      }
+    }
+  }
+
+  get readyState(): ConnectionState {
+    return this.state;
+  }
+
+  open(handlers: TransportHandlers): void {
+    this.handlers = handlers;
+
+    if (this.inbound.length === 0) {
+      this.finish(1006, 'No recorded connection', false);
+      return;
+    }
+    this.next();
+  }
+
+  send(data: RawOutboundData): void {
+    if (this.state !== ConnectionState.Open) {
+      throw new Error('ReplayTransport is not open');
+    }
+
+    const recorded =
+      typeof data === 'string'
+        ? data
+        : data instanceof ArrayBuffer
+          ? new Uint8Array(data.slice(0))
+          : ArrayBuffer.isView(data)
+            ? new Uint8Array(
+                data.buffer,
+                data.byteOffset,
+                data.byteLength,
+              ).slice()
+            : null;
+    const entry: TrafficFrameEntry = {
+      type: 'frame',
+      connection: this.connection,
+      timestamp: Date.now(),
+      direction: 'outbound',
+      data: recorded,
+    };
+
+    if (recorded !== null) {
+      const decoded = decodeRecordedFrame(
+        recorded,
+        codecFor(recorded, this.context.codec),
+      );
+      if (decoded !== undefined) {
+        entry.decoded = decoded;
+      }
+      if (this.context.remapIds) {
+        for (const { method, id } of requestsIn(decoded)) {
+          const recordedId = this.expected.get(method)?.shift();
+          if (recordedId !== undefined) {
+            this.ids.set(recordedId, id);
+          }
+        }
+      }
+    }
+
+    this.context.sent(entry);
+  }
+
+  close(code = 1000, reason = ''): void {
+    this.finish(code, reason, true);
+  }
+
+  terminate(): void {
+    this.finish(1006, '', false);
+  }
+
+  /**
+   * 按与上一条记录的间隔安排下一条记录
+   */
+  private next(): void {
+    const entry = this.inbound[this.cursor];
+    if (!entry) {
+      this.context.finish(this.connection);
+      return;
+    }
+
+    const previous = this.inbound[this.cursor - 1];
+    const gap = previous
+      ? Math.max(entry.timestamp - previous.timestamp, 0)
+      : 0;
+    this.timeoutId = setTimeout(() => {
+      this.timeoutId = null;
+      this.cursor++;
+      this.deliver(entry);
+      if (this.state !== ConnectionState.Closed) {
+        this.next();
+      }
+    }, gap / this.context.speed);
+  }
+
+  private deliver(entry: TrafficEntry): void {
+    if (entry.type === 'close') {
+      this.finish(entry.code, entry.reason, entry.wasClean);
+      return;
+    }
+
+    // 录制被截断时可能缺少打开记录，首条帧送达前先打开
+    if (this.state === ConnectionState.Connecting) {
+      this.state = ConnectionState.Open;
+      this.handlers?.open();
+    }
+
+    if (entry.type === 'frame' && entry.data !== null) {
+      this.handlers?.message(this.remap(entry.data));
+    }
+  }
+
+  /**
+   * 将响应中的录制 ID 改写为回放时的请求 ID（未改写的帧原样送达）
+   */
+  private remap(data: string | Uint8Array): WireData {
+    if (this.ids.size === 0) {
+      return toWireData(data);
+    }
+
+    const codec = codecFor(data, this.context.codec);
+    const decoded = decodeRecordedFrame(data, codec);
+    const messages = Array.isArray(decoded) ? decoded : [decoded];
+    let changed = false;
+
+    for (const message of messages) {
+      if (
+        typeof message === 'object' &&
+        message !== null &&
+        !('method' in message) &&
+        this.ids.has(message.id)
+      ) {
+        message.id = this.ids.get(message.id);
+        changed = true;
+      }
+    }
+
+    if (!changed) {
+      return toWireData(data);
+    }
+
+    const encoded = codec.encode(decoded as never);
+    return toWireData(encoded);
+  }
+
+  private finish(code: number, reason: string, wasClean: boolean): void {
+    if (this.state === ConnectionState.Closed) {
+      return;
+    }
+
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+    this.state = ConnectionState.Closed;
+    this.context.finish(this.connection);
+    queueMicrotask(() => {
+      this.handlers?.close({ code, reason, wasClean });
+    });
+  }
+}
+
+export class TrafficReplay {
+  /** 回放期间客户端发出的帧（可与录制的出站帧对比） */
+  readonly sent: TrafficFrameEntry[] = [];
+  private connections: TrafficEntry[][];
+  private created = 0;
+  private done = new Set<number>();
+  private waiters = new Set<() => void>();
+  private context: ReplayContext;
+
+  /**
+   * @param recording 流量记录，或 serializeRecording 导出的 NDJSON / MessagePack
+   */
+  constructor(
+    recording: readonly TrafficEntry[] | string | Uint8Array,
+    options: ReplayOptions = {},
+  ) {
+    const entries =
+      typeof recording === 'string' || recording instanceof Uint8Array
+        ? parseRecording(recording)
+        : recording;
+    const groups = new Map<number, TrafficEntry[]>();
+    for (const entry of entries) {
+      groups.set(entry.connection, [
+        ...(groups.get(entry.connection) ?? []),
+        entry,
+      ]);
+    }
+    this.connections = [...groups.keys()]
+      .sort((a, b) => a - b)
+      .map((connection) => groups.get(connection) ?? []);
+
+    const { speed = 1, remapIds = true, codec } = options;
+    if (!(speed > 0)) {
+      throw new RangeError(`Replay speed must be positive, got ${speed}`);
+    }
+
+    this.context = {
+      speed,
+      remapIds,
+      codec: codec === undefined ? null : resolveCodec(codec),
+      sent: (entry) => this.sent.push(entry),
+      finish: (connection) => {
+        if (connection >= this.connections.length) {
+          return;
+        }
+        this.done.add(connection);
+        if (this.isFinished) {
+          for (const waiter of this.waiters) {
+            waiter();
+          }
+          this.waiters.clear();
+        }
+      },
+    };
+  }
+
+  /**
+   * 录制中的连接数
+   */
+  get connectionCount(): number {
+    return this.connections.length;
+  }
+
+  /**
+   * 是否所有录制的连接都已回放完成
+   */
+  get isFinished(): boolean {
+    return this.done.size >= this.connections.length;
+  }
+
+  /**
+   * 回放传输工厂：作为客户端 transport 选项使用，每次调用回放下一条录制连接
+   */
+  readonly transport: TransportFactory = () => {
+    const connection = this.created++;
+    return new ReplayTransport(
+      this.connections[connection] ?? [],
+      connection,
+      this.context,
+    );
+  };
+
+  /**
+   * 等待所有录制的连接回放完成（记录送达完毕或被关闭）
+   */
+  whenFinished(): Promise<void> {
+    if (this.isFinished) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.waiters.add(resolve));
+  }
+}
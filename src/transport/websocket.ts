@@ -0,0 +1,39 @@
+/**
+ * 浏览器 WebSocket 传输（使用全局 WebSocket）
+ */
+
+import type { WireData } from '../types/codec';
+import type { RawOutboundData } from '../types/socket';
+import { ConnectionState } from '../types/socket';
+import type { Transport, TransportHandlers } from '../types/transport';
+
+export class WebSocketTransport implements Transport {
+  private ws: WebSocket | null = null;
+
+  constructor(
+    private readonly url: string,
+    private readonly protocols?: string | string[],
+  ) {}
+
+  get readyState(): ConnectionState {
+    return this.ws?.readyState ?? ConnectionState.Connecting;
+  }
+
+  open(handlers: TransportHandlers): void {
+    const ws = new WebSocket(this.url, this.protocols);
+    ws.binaryType = 'arraybuffer';
+    ws.onopen = (event) => handlers.open(event);
+    ws.onmessage = (event) => handlers.message(event.data as WireData);
+    ws.onclose = (event) => handlers.close(event);
+    ws.onerror = (event) => handlers.error(event);
+    this.ws = ws;
+  }
+
+  send(data: RawOutboundData): void {
+    this.ws?.send(data);
+  }
+
+  close(code?: number, reason?: string): void {
+    this.ws?.close(code, reason);
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * 方法契约类型定义
+ * 以方法名为键描述参数与结果，例如：
+ * interface Api { 'user.login': { params: LoginParams; result: LoginResult } }
+ */
+
+import type {
+  NotificationOptions,
+  RequestOptions,
+  StreamIteratorOptions,
+  StreamOptions,
+} from './socket';
+
+/**
+ * 单个方法的契约（省略 params 表示无参数）
+ */
+export interface MethodContract {
+  params?: unknown;
+  result?: unknown;
+}
+
+/**
+ * 未声明契约时的默认类型，方法名与参数不受约束
+ */
+export type UntypedApi = Record<string, { params: unknown; result: unknown }>;
+
+/**
+ * 是否为未声明契约（方法名为任意字符串）
+ */
+export type IsUntypedApi<TApi> = string extends keyof TApi ? true : false;
+
+/**
+ * 契约中的方法名
+ */
+export type ApiMethod<TApi> = Extract<keyof TApi, string>;
+
+/**
+ * 方法参数类型
+ */
+export type ApiParams<TApi, M extends keyof TApi> = TApi[M] extends {
+  params: infer P;
+}
+  ? P
+  : undefined;
+
+/**
+ * 方法结果类型
+ */
+export type ApiResult<TApi, M extends keyof TApi> = TApi[M] extends {
+  result: infer R;
+}
+  ? R
+  : unknown;
+
+/**
+ * 参数字段：参数可为 undefined 时可省略
+ */
+type ParamsField<P> = undefined extends P ? { params?: P } : { params: P };
+
+/**
+ * 按契约约束的请求配置
+ */
+export type TypedRequestOptions<TApi, M extends ApiMethod<TApi>> = Omit<
+  RequestOptions,
+  'method' | 'params'
+> & { method: M } & ParamsField<ApiParams<TApi, M>>;
+
+/**
+ * 按契约约束的通知配置
+ */
+export type TypedNotificationOptions<TApi, M extends ApiMethod<TApi>> = Omit<
+  NotificationOptions,
+  'method' | 'params'
+> & { method: M } & ParamsField<ApiParams<TApi, M>>;
+
+/**
+ * 按契约约束的流式请求配置
+ */
+export type TypedStreamOptions<TApi, M extends ApiMethod<TApi>> = Omit<
+  StreamOptions,
+  'method' | 'params'
+> & { method: M } & ParamsField<ApiParams<TApi, M>>;
+
+/**
+ * 按契约约束的流式迭代器配置
+ */
+export type TypedStreamIteratorOptions<TApi, M extends ApiMethod<TApi>> = Omit<
+  StreamIteratorOptions<unknown, ApiResult<TApi, M>>,
+  'method' | 'params'
+> & { method: M } & ParamsField<ApiParams<TApi, M>>;
+
+/**
+ * 仅在未声明契约时可用的宽松配置（声明契约后为 never，避免绕过校验）
+ */
+export type UntypedOptions<TApi, TOptions> = IsUntypedApi<TApi> extends true
+  ? TOptions
+  : never;
+
+/**
+ * 代理调用的附加配置
+ */
+export type ProxyCallOptions = Omit<RequestOptions, 'method' | 'params'>;
+
+/**
+ * 代理方法
+ */
+export type ProxyMethod<P, R> = undefined extends P
+  ? (params?: P, options?: ProxyCallOptions) => Promise<R>
+  : (params: P, options?: ProxyCallOptions) => Promise<R>;
+
+type PathToObject<
+  Path extends string,
+  T,
+> = Path extends `${infer Head}.${infer Rest}`
+  ? { readonly [K in Head]: PathToObject<Rest, T> }
+  : { readonly [K in Path]: T };
+
+type UnionToIntersection<U> = (
+  U extends unknown
+    ? (value: U) => void
+    : never
+) extends (value: infer I) => void
+  ? I
+  : never;
+
+/**
+ * 未声明契约时的代理：任意层级均可调用
+ */
+export interface UntypedApiProxy {
+  (params?: unknown, options?: ProxyCallOptions): Promise<unknown>;
+  readonly [key: string]: UntypedApiProxy;
+}
+
+/**
+ * 方法代理：'user.login' 映射为 api.user.login(params)
+ */
+export type ApiProxy<TApi> = IsUntypedApi<TApi> extends true
+  ? UntypedApiProxy
+  : UnionToIntersection<
+      {
+        [M in ApiMethod<TApi>]: PathToObject<
+          M,
+          ProxyMethod<ApiParams<TApi, M>, ApiResult<TApi, M>>
+        >;
+      }[ApiMethod<TApi>]
+    >;
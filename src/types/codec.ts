@@ -0,0 +1,22 @@
+/**
+ * 编解码器类型定义
+ */
+
+import type { JsonRpcBatch, JsonRpcMessage } from './jsonrpc';
+
+/**
+ * 线路帧数据：字符串为文本帧，二进制为二进制帧
+ */
+export type WireData = string | ArrayBuffer;
+
+/**
+ * 消息编解码器
+ */
+export interface Codec {
+  /** 编解码器名称（用作 inboundMode / outboundMode） */
+  readonly name: string;
+  /** 编码出站消息，返回字符串时以文本帧发送 */
+  encode(message: JsonRpcMessage | JsonRpcBatch): string | Uint8Array;
+  /** 解码入站帧 */
+  decode(data: WireData): JsonRpcMessage | JsonRpcBatch;
+}
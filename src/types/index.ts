@@ -4,3 +4,10 @@
 
 export * from './jsonrpc';
 export * from './socket';
+export * from './api';
+export * from './codec';
+export * from './transport';
+export * from './pool';
+export * from './tracing';
+export * from './logger';
+export * from './recording';
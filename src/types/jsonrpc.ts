@@ -57,6 +57,11 @@ export type JsonRpcMessage<T = unknown> =
   | JsonRpcResponse<T>
   | JsonRpcNotification<T>;
 
+/**
+ * JSON-RPC 2.0 批量消息（以数组形式发送的多个请求/通知，或对应的响应数组）
+ */
+export type JsonRpcBatch<T = unknown> = JsonRpcMessage<T>[];
+
 /**
  * 标准错误码
  */
@@ -69,6 +74,9 @@ export enum JsonRpcErrorCode {
   ServerError = -32000,
   Timeout = -32001,
   ConnectionClosed = -32002,
+  Aborted = -32003,
+  StreamOverflow = -32004,
+  QueueRejected = -32005,
 }
 
 /**
@@ -119,6 +127,15 @@ export function isJsonRpcSuccess<T>(
   return 'result' in response;
 }
 
+/**
+ * 类型守卫：检查是否为请求（需要响应）
+ */
+export function isJsonRpcRequest(
+  message: JsonRpcMessage,
+): message is JsonRpcRequest {
+  return 'method' in message && 'id' in message && message.id !== undefined;
+}
+
 /**
  * 类型守卫：检查是否为通知
  */
@@ -0,0 +1,42 @@
+/**
+ * 日志类型定义
+ */
+
+/**
+ * 日志级别
+ */
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * 结构化日志字段
+ */
+export interface LogFields {
+  /** 事件名（如 'request.sent'、'connection.close'） */
+  event: string;
+  /** 请求 ID */
+  id?: string | number;
+  /** 方法名 */
+  method?: string;
+  /** 耗时（毫秒） */
+  duration?: number;
+  /** 关闭码 */
+  code?: number;
+  /** 关闭原因 */
+  reason?: string;
+  /** 错误 */
+  error?: unknown;
+  /** 消息内容（已按 redact 路径脱敏） */
+  payload?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * 日志器（与 pino、winston 等常见日志库的级别方法一致，可直接适配）
+ */
+export interface Logger {
+  trace(message: string, fields: LogFields): void;
+  debug(message: string, fields: LogFields): void;
+  info(message: string, fields: LogFields): void;
+  warn(message: string, fields: LogFields): void;
+  error(message: string, fields: LogFields): void;
+}
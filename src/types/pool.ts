@@ -0,0 +1,22 @@
+/**
+ * 连接池类型定义
+ */
+
+import type { ConnectionOptions } from './socket';
+
+/**
+ * 连接池路由策略
+ * - round-robin: 依次轮询各连接
+ * - least-pending: 选择待处理请求最少的连接（相同时轮询）
+ */
+export type PoolRouting = 'round-robin' | 'least-pending';
+
+/**
+ * 连接池配置（其余选项用于创建每个客户端）
+ */
+export interface PoolOptions extends ConnectionOptions {
+  /** 连接数（默认 4） */
+  size?: number;
+  /** 路由策略（默认 'round-robin'） */
+  routing?: PoolRouting;
+}
@@ -0,0 +1,90 @@
+/**
+ * 流量录制与回放类型定义
+ */
+
+import type { Codec } from './codec';
+
+/**
+ * 帧方向：inbound 为客户端收到，outbound 为客户端发出
+ */
+export type FrameDirection = 'inbound' | 'outbound';
+
+/**
+ * 录制格式：ndjson 每行一条 JSON 记录，messagepack 为记录数组
+ */
+export type RecordingFormat = 'ndjson' | 'messagepack';
+
+interface TrafficEntryBase {
+  /** 连接序号（每次创建传输递增，从 0 开始） */
+  connection: number;
+  /** 时间戳（毫秒） */
+  timestamp: number;
+}
+
+/**
+ * 连接打开记录
+ */
+export interface TrafficOpenEntry extends TrafficEntryBase {
+  type: 'open';
+  /** 连接地址 */
+  url: string;
+}
+
+/**
+ * 帧记录
+ */
+export interface TrafficFrameEntry extends TrafficEntryBase {
+  type: 'frame';
+  /** 方向 */
+  direction: FrameDirection;
+  /** 原始帧：字符串为文本帧，Uint8Array 为二进制帧，Blob 无法同步读取时为 null */
+  data: string | Uint8Array | null;
+  /** 解码后的消息（解码失败时省略，仅供查看，回放使用原始帧） */
+  decoded?: unknown;
+}
+
+/**
+ * 连接关闭记录
+ */
+export interface TrafficCloseEntry extends TrafficEntryBase {
+  type: 'close';
+  /** 关闭码 */
+  code: number;
+  /** 关闭原因 */
+  reason: string;
+  /** 是否正常完成关闭握手 */
+  wasClean: boolean;
+}
+
+/**
+ * 流量记录
+ */
+export type TrafficEntry =
+  | TrafficOpenEntry
+  | TrafficFrameEntry
+  | TrafficCloseEntry;
+
+/**
+ * 流量录制配置
+ */
+export interface RecorderOptions {
+  /** 解码帧的编解码器或名称（默认 'auto'），'raw' 表示不解码 */
+  codec?: string | Codec;
+  /** 最多保留的记录数，超出时丢弃最早的记录（默认 10000，0 表示不限） */
+  maxEntries?: number;
+}
+
+/**
+ * 流量回放配置
+ */
+export interface ReplayOptions {
+  /** 回放速度倍数（默认 1 按录制间隔回放，Infinity 表示不等待依次回放） */
+  speed?: number;
+  /**
+   * 将录制的请求 ID 映射为回放时客户端生成的 ID（默认 true）
+   * 按发送顺序将客户端请求与同连接内录制的同名请求对应，并改写入站响应的 id
+   */
+  remapIds?: boolean;
+  /** 解码与重新编码帧的编解码器或名称（默认按帧类型：文本帧 JSON，二进制帧 MessagePack） */
+  codec?: string | Codec;
+}
@@ -0,0 +1,115 @@
+/**
+ * JSON-RPC WebSocket 服务端类型定义
+ */
+
+import type { Server as HttpServer, IncomingMessage } from 'node:http';
+import type { ServerConnection } from '../server/connection';
+import type { Codec } from './codec';
+import type { JsonRpcMessage } from './jsonrpc';
+import type { TransportCloseEvent } from './transport';
+
+/**
+ * 服务端配置
+ */
+export interface ServerOptions<TContext = unknown> {
+  /** 监听端口（0 表示随机端口），与 server 均未设置时只能通过 accept() 接入连接 */
+  port?: number;
+  /** 监听地址 */
+  host?: string;
+  /** 复用已有的 HTTP 服务 */
+  server?: HttpServer;
+  /** 只接受该路径上的连接 */
+  path?: string;
+  /** 创建连接上下文（如鉴权），抛出错误时以 1008 关闭连接 */
+  context?: (info: ConnectionInfo) => TContext | Promise<TContext>;
+  /** 编解码器或已注册的名称（默认 'messagepack'） */
+  codec?: string | Codec;
+  /** 客户端取消通知方法名（与客户端 cancelMethod 一致），收到后中止对应请求或流 */
+  cancelMethod?: string;
+  /** 流式响应结束时发送的结果标记（默认 null，与客户端 streamIterator 默认结束标记一致） */
+  streamEnd?: unknown;
+  /** 服务端发起请求的默认超时时间（毫秒） */
+  defaultTimeout?: number;
+  /** 读取追踪上下文的消息字段（与客户端 traceField 一致，默认 'trace'） */
+  traceField?: string;
+}
+
+/**
+ * 建立连接时的信息
+ */
+export interface ConnectionInfo {
+  /** 升级请求（通过 accept() 接入且未提供时为空） */
+  request?: IncomingMessage;
+}
+
+/**
+ * 服务端方法调用上下文
+ */
+export interface ServerRequestContext<TContext = unknown> {
+  /** 请求 ID */
+  id: string | number;
+  /** 方法名 */
+  method: string;
+  /** 发起请求的连接 */
+  connection: ServerConnection<TContext>;
+  /** 连接上下文 */
+  context: TContext;
+  /** 客户端取消或连接关闭时中止 */
+  signal: AbortSignal;
+  /** 客户端注入的追踪上下文（如 { traceparent }），未携带时为空 */
+  trace?: Record<string, string>;
+}
+
+/**
+ * 服务端方法处理器：返回结果，或返回 AsyncIterable 以流式响应逐条推送
+ */
+export type ServerMethodHandler<
+  TParams = unknown,
+  TResult = unknown,
+  TContext = unknown,
+> = (
+  params: TParams,
+  context: ServerRequestContext<TContext>,
+) => TResult | Promise<TResult> | AsyncIterable<TResult>;
+
+/**
+ * 服务端通知处理器
+ */
+export type ServerNotificationHandler<TParams = unknown, TContext = unknown> = (
+  params: TParams,
+  context: {
+    method: string;
+    connection: ServerConnection<TContext>;
+    trace?: Record<string, string>;
+  },
+) => void;
+
+/**
+ * 服务端发起请求的配置
+ */
+export interface ServerRequestOptions {
+  /** 超时时间（毫秒） */
+  timeout?: number;
+  /** 中止信号 */
+  signal?: AbortSignal;
+}
+
+/**
+ * 服务端事件
+ */
+export interface ServerEvents<TContext = unknown>
+  extends Record<string, unknown> {
+  /** 新连接（上下文已创建） */
+  connection: ServerConnection<TContext>;
+  /** 连接断开 */
+  disconnect: {
+    connection: ServerConnection<TContext>;
+  } & TransportCloseEvent;
+  /** 收到消息（请求、通知或对服务端请求的响应） */
+  message: {
+    connection: ServerConnection<TContext>;
+    message: JsonRpcMessage;
+  };
+  /** 服务端错误（监听失败、连接上下文创建失败、消息编码或发送失败等） */
+  error: Error;
+}
@@ -2,10 +2,35 @@
  * WebSocket 客户端类型定义
  */
 
-import type { JsonRpcResponse } from './jsonrpc';
+import type { RemoteErrorClass } from '../core/errors';
+import type { Codec, WireData } from './codec';
+import type {
+  JsonRpcMessage,
+  JsonRpcNotification,
+  JsonRpcRequest,
+  JsonRpcResponse,
+} from './jsonrpc';
+import type { Logger } from './logger';
+import type { Tracer } from './tracing';
+import type { TransportCloseEvent, TransportFactory } from './transport';
 
-export type InboundMode = 'messagepack' | 'raw';
-export type OutboundMode = 'messagepack' | 'raw';
+/**
+ * 入站消息模式：内置编解码器名、registerCodec 注册的名称，或 raw（不解码）
+ */
+export type InboundMode =
+  | 'messagepack'
+  | 'json'
+  | 'auto'
+  | 'raw'
+  | (string & Record<never, never>);
+/**
+ * 出站消息模式：内置编解码器名、registerCodec 注册的名称，或 raw（仅 sendRaw）
+ */
+export type OutboundMode =
+  | 'messagepack'
+  | 'json'
+  | 'raw'
+  | (string & Record<never, never>);
 export type RawOutboundData = string | ArrayBuffer | ArrayBufferView | Blob;
 
 /**
@@ -18,32 +43,225 @@ export enum ConnectionState {
   Closed = 3,
 }
 
+/**
+ * 重连策略上下文
+ */
+export interface ReconnectContext {
+  /** 本次重连序号（从 1 开始） */
+  attempt: number;
+  /** 触发重连的关闭事件（建立连接时抛出异常则为空） */
+  closeEvent?: TransportCloseEvent;
+}
+
+/**
+ * 重连策略：返回下次重连前的延迟（毫秒），返回 false 表示停止重连
+ */
+export type ReconnectPolicy = ((
+  context: ReconnectContext,
+) => number | false) & {
+  /** 最大重连次数（仅用于 reconnecting 事件展示） */
+  readonly maxAttempts?: number;
+};
+
+/**
+ * 请求重试配置
+ */
+export interface RetryOptions {
+  /** 最大重试次数（不含首次请求） */
+  attempts: number;
+  /** 重试前的延迟（毫秒），或按重试序号（从 1 开始）计算 */
+  backoff?: number | ((attempt: number) => number);
+  /** 可重试的错误码，默认仅超时与连接关闭 */
+  retryOnCodes?: number[];
+  /** 自定义是否重试（设置后忽略 retryOnCodes） */
+  shouldRetry?: (error: Error, attempt: number) => boolean;
+}
+
+/**
+ * 按方法名匹配的客户端默认重试规则
+ */
+export interface RetryRule extends RetryOptions {
+  /** 方法名匹配：字符串（支持 * 通配）、正则或函数 */
+  match: string | RegExp | ((method: string) => boolean);
+}
+
+/**
+ * 心跳模式
+ * - notify: 发送心跳通知，不等待应答
+ * - request: 发送心跳请求，在 heartbeatTimeout 内等待响应（错误响应同样视为存活）
+ * - ping: 使用 WebSocket ping 帧等待 pong（仅 Node.js ws 实现支持，否则回退为 request）
+ */
+export type HeartbeatMode = 'notify' | 'request' | 'ping';
+
+/**
+ * 并发受限时的排队方式
+ * - fifo: 先进先出
+ * - priority: 按 RequestOptions.priority 从高到低，相同优先级先进先出
+ */
+export type RequestQueueMode = 'fifo' | 'priority';
+
+/**
+ * 令牌桶限速
+ */
+export interface TokenBucketOptions {
+  /** 每个时间窗口补充的令牌数 */
+  limit: number;
+  /** 时间窗口（毫秒），默认 1000 */
+  interval?: number;
+  /** 桶容量，即允许的突发调用数，默认等于 limit */
+  burst?: number;
+}
+
+/**
+ * 出站限速：全局令牌桶与按方法名的令牌桶，同时配置时调用需取得两者的令牌
+ */
+export interface RateLimitOptions extends Partial<TokenBucketOptions> {
+  /** 按方法名单独限速 */
+  methods?: Record<string, TokenBucketOptions>;
+}
+
+/**
+ * 端点解析函数：每次建立连接前调用，返回按优先级排列的 URL
+ */
+export type EndpointResolver = () =>
+  | string
+  | readonly string[]
+  | Promise<string | readonly string[]>;
+
+/**
+ * 端点切换原因
+ * - failover: 当前端点连续连接失败，切换到下一个端点
+ * - failback: 更高优先级的端点恢复，切换回去
+ * - manual: 调用 reconnectToUrl() 切换
+ */
+export type EndpointChangeReason = 'failover' | 'failback' | 'manual';
+
+/**
+ * 端点健康状态
+ */
+export interface EndpointHealth {
+  /** 端点 URL */
+  url: string;
+  /** 是否可用（不在冷却期） */
+  healthy: boolean;
+  /** 连续连接失败次数 */
+  failures: number;
+  /** 冷却结束时间戳，不在冷却期时为 null */
+  cooldownUntil: number | null;
+  /** 最近一次连接失败时间戳 */
+  lastFailureAt: number | null;
+  /** 最近一次连接成功时间戳 */
+  lastConnectedAt: number | null;
+}
+
+/**
+ * 鉴权上下文
+ */
+export interface AuthContext {
+  /** 本轮重连次数（首次连接为 0） */
+  attempt: number;
+  /** 是否为断线后的重连 */
+  reconnect: boolean;
+  /** 当前端点 */
+  endpoint: string;
+}
+
+/**
+ * 鉴权期间可用的受限客户端：调用直接发送，不经过离线队列与重试
+ */
+export interface AuthClient {
+  /** 发送请求 */
+  request<TResult = unknown, TParams = unknown>(
+    options: RequestOptions<TParams>,
+  ): Promise<TResult>;
+  /** 发送通知 */
+  notify<TParams = unknown>(
+    options: NotificationOptions<TParams>,
+  ): Promise<void>;
+}
+
+/**
+ * 鉴权握手：每次（重新）连接后执行，完成前连接不视为打开，抛出错误视为鉴权失败
+ */
+export type AuthenticateHandler = (
+  client: AuthClient,
+  context: AuthContext,
+) => void | Promise<void>;
+
 /**
  * 连接配置
  */
 export interface ConnectionOptions {
-  /** WebSocket URL */
-  url: string;
+  /** WebSocket URL，或按优先级排列的 URL 列表（首个为主端点）、端点解析函数 */
+  url: string | readonly string[] | EndpointResolver;
   /** WebSocket 协议 */
   protocols?: string | string[];
+  /** 传输层工厂，默认使用全局 WebSocket（Node.js 使用 node 入口的 nodeTransport） */
+  transport?: TransportFactory;
+  /** 创建时不连接，调用 connect() 后再建立连接（默认 false） */
+  lazy?: boolean;
+  /** 鉴权握手，每次（重新）连接后执行，完成后才触发 open 并放行其他调用 */
+  authenticate?: AuthenticateHandler;
+  /** 同一端点连续连接失败多少次后进入冷却并切换到下一个端点（默认 2） */
+  failoverThreshold?: number;
+  /** 端点冷却时间（毫秒），冷却期内优先尝试其他端点（默认 30000） */
+  endpointCooldown?: number;
+  /** 连接到备用端点时探测更高优先级端点的间隔（毫秒），可连接时切换回去，0 表示不探测（默认 30000） */
+  failbackInterval?: number;
   /** 自动重连 */
   autoReconnect?: boolean;
   /** 重连间隔（毫秒） */
   reconnectInterval?: number;
   /** 最大重连次数 */
   maxReconnectAttempts?: number;
+  /** 重连策略，设置后忽略 reconnectInterval 与 maxReconnectAttempts */
+  reconnectPolicy?: ReconnectPolicy;
   /** 默认超时时间（毫秒） */
   defaultTimeout?: number;
   /** 心跳间隔（毫秒），0 表示禁用 */
   heartbeatInterval?: number;
   /** 心跳方法名 */
   heartbeatMethod?: string;
-  /** 是否启用调试日志 */
+  /** 心跳模式，默认 'notify' */
+  heartbeatMode?: HeartbeatMode;
+  /** 心跳应答超时（毫秒），仅 'request' 与 'ping' 模式有效 */
+  heartbeatTimeout?: number;
+  /** 连续丢失多少次心跳应答后判定连接失效，强制断开并重连 */
+  maxMissedHeartbeats?: number;
+  /** 是否启用调试日志（未提供 logger 时输出到控制台） */
   debug?: boolean;
-  /** 入站消息模式，默认 MessagePack JSON-RPC 解码 */
-  inboundMode?: InboundMode;
-  /** 出站消息模式，默认 MessagePack JSON-RPC 编码 */
-  outboundMode?: OutboundMode;
+  /** 结构化日志器，提供后不论 debug 是否开启都会输出各级别日志 */
+  logger?: Logger;
+  /** 日志中需脱敏的消息字段路径（如 'params.token'、'params.*.password'，* 匹配任意键） */
+  redact?: string[];
+  /** 入站消息模式或编解码器，默认 MessagePack JSON-RPC 解码 */
+  inboundMode?: InboundMode | Codec;
+  /** 出站消息模式或编解码器，默认 MessagePack JSON-RPC 编码 */
+  outboundMode?: OutboundMode | Codec;
+  /** 取消通知方法名（如 '$/cancelRequest'），请求中止、超时或流关闭时发送给服务端，为空则不发送 */
+  cancelMethod?: string;
+  /** 取消通知参数，默认 { id } */
+  cancelParams?: (id: string | number) => unknown;
+  /** 默认重试规则，按顺序匹配方法名（仅用于幂等方法） */
+  retryRules?: RetryRule[];
+  /** 按错误码注册的远程错误子类，错误响应将以对应子类拒绝 */
+  errorClasses?: Record<number, RemoteErrorClass>;
+  /** 追踪器，为每个请求、通知与流式请求创建 span 并注入追踪上下文 */
+  tracer?: Tracer;
+  /** 追踪上下文写入的消息字段（与 method、params 同级，默认 'trace'） */
+  traceField?: string;
+  /** 连接中或重连期间缓存出站调用，连接打开后按顺序发送（默认关闭） */
+  queueWhileDisconnected?: boolean;
+  /** 离线队列最大长度 */
+  maxQueueSize?: number;
+  /** 调用在离线队列中的最长等待时间（毫秒），0 表示不限 */
+  maxQueueAge?: number;
+  /** 最大并发请求数，超出的请求排队等待，0 表示不限（心跳、鉴权调用与批量请求不受限制） */
+  maxConcurrentRequests?: number;
+  /** 并发受限时的排队方式（默认 'fifo'） */
+  requestQueue?: RequestQueueMode;
+  /** 请求与通知的令牌桶限速（批量请求每个条目各取一个令牌，心跳与鉴权调用不受限制） */
+  rateLimit?: RateLimitOptions;
 }
 
 /**
@@ -58,6 +276,12 @@ export interface RequestOptions<TParams = unknown> {
   timeout?: number;
   /** 请求 ID（可选，自动生成） */
   id?: string | number;
+  /** 中止信号，中止后以 AbortError 拒绝 */
+  signal?: AbortSignal;
+  /** 重试配置，false 表示不使用客户端默认重试规则 */
+  retry?: RetryOptions | false;
+  /** 排队优先级，数值越大越先发送（仅 requestQueue 为 'priority' 时有效，默认 0） */
+  priority?: number;
 }
 
 /**
@@ -80,6 +304,48 @@ export interface StreamOptions<TParams = unknown> {
   params?: TParams;
   /** 流 ID（可选，自动生成） */
   id?: string | number;
+  /** 重连后以原方法和参数自动重新订阅（默认 true），关闭时连接断开即以错误结束 */
+  resubscribe?: boolean;
+  /** 中止信号，中止后关闭流 */
+  signal?: AbortSignal;
+}
+
+/**
+ * 流式迭代器缓冲区满时的处理策略
+ * - drop-oldest: 丢弃最早的未消费数据
+ * - drop-newest: 丢弃新到达的数据
+ * - error: 以 JsonRpcStreamOverflowError 结束迭代
+ */
+export type StreamOverflowPolicy = 'drop-oldest' | 'drop-newest' | 'error';
+
+/**
+ * 流式迭代器配置
+ */
+export interface StreamIteratorOptions<TParams = unknown, TResult = unknown>
+  extends StreamOptions<TParams> {
+  /**
+   * 重连后自动重新订阅（默认 false，连接断开时以 JsonRpcConnectionClosedError 结束）
+   * 开启后迭代不会中断，但可能重复产出重连前已收到的数据，可通过 on('resubscribe') 感知
+   */
+  resubscribe?: boolean;
+  /** 判断结果是否为结束标记，默认 result 为 null 时结束（结束标记本身不产出） */
+  isEnd?: (result: TResult) => boolean;
+  /** 两次数据之间的最长间隔（毫秒），超时以 JsonRpcTimeoutError 结束，0 表示不限 */
+  idleTimeout?: number;
+  /** 未消费数据的最大缓冲条数（默认 100） */
+  bufferSize?: number;
+  /** 缓冲区满时的处理策略（默认 'error'） */
+  overflow?: StreamOverflowPolicy;
+}
+
+/**
+ * 流事件
+ */
+export interface StreamEvents extends Record<string, unknown> {
+  /** 重连后已重新订阅 */
+  resubscribe: { attempt: number };
+  /** 流已丢失（连接断开未重新订阅、重连失败或客户端关闭） */
+  lost: { reason: string };
 }
 
 /**
@@ -92,22 +358,104 @@ export interface StreamController {
   close(): void;
   /** 流是否已关闭 */
   readonly closed: boolean;
+  /** 监听流事件，返回取消监听函数 */
+  on<K extends keyof StreamEvents>(
+    event: K,
+    listener: (data: StreamEvents[K]) => void,
+  ): () => void;
+}
+
+/**
+ * 可异步迭代的流：for await 逐条消费结果
+ * 收到结束标记时正常结束，错误响应、连接断开或空闲超时时抛出错误
+ */
+export interface StreamIterator<TResult = unknown>
+  extends StreamController,
+    AsyncIterableIterator<TResult> {}
+
+/**
+ * 批量请求构建器
+ */
+export interface BatchBuilder {
+  /** 添加请求，返回该请求的结果（send() 之后按 id 单独结算） */
+  request<TResult = unknown, TParams = unknown>(
+    options: RequestOptions<TParams>,
+  ): Promise<TResult>;
+  /** 添加通知 */
+  notify<TParams = unknown>(
+    options: NotificationOptions<TParams>,
+  ): BatchBuilder;
+  /** 已添加的条目数 */
+  readonly size: number;
+  /** 以单个数组帧发送所有条目，空批量会被拒绝 */
+  send(): Promise<void>;
+}
+
+/**
+ * 中间件上下文
+ */
+export interface MiddlewareContext {
+  /** 调用类型 */
+  readonly kind: 'request' | 'notification' | 'stream';
+  /** 出站消息，可在 next() 之前修改或替换（如注入鉴权参数） */
+  message: JsonRpcRequest | JsonRpcNotification;
+  /**
+   * 入站响应（仅 request）：next() 返回后可读取或改写；
+   * 不调用 next() 而直接赋值可短路，返回本地结果且不发送
+   */
+  response?: JsonRpcResponse;
+  /** 中间件之间共享的状态 */
+  state: Record<string, unknown>;
 }
 
+/**
+ * 中间件（洋葱模型，与 Koa 一致）
+ */
+export type Middleware = (
+  context: MiddlewareContext,
+  next: () => Promise<void>,
+) => void | Promise<void>;
+
+/**
+ * 入站请求上下文
+ */
+export interface InboundRequestContext {
+  /** 请求 ID（通知时为 undefined） */
+  id?: string | number | null;
+  /** 方法名 */
+  method: string;
+}
+
+/**
+ * 入站请求处理器（返回值作为响应结果，抛出异常时返回错误响应）
+ */
+export type MethodHandler<TParams = unknown, TResult = unknown> = (
+  params: TParams,
+  context: InboundRequestContext,
+) => TResult | Promise<TResult>;
+
+/**
+ * 入站通知处理器
+ */
+export type NotificationHandler<TParams = unknown> = (
+  params: TParams,
+  context: InboundRequestContext,
+) => void;
+
 export interface DecodedMessageEventData {
   /** 消息是否已解码 */
   decoded: true;
-  /** 解码后的消息 */
-  data: JsonRpcResponse;
-  /** 原始二进制数据（用于转发） */
-  rawData: ArrayBuffer;
+  /** 解码后的消息（响应，或服务端发起的请求/通知） */
+  data: JsonRpcMessage;
+  /** 原始帧数据（用于转发），文本帧为字符串 */
+  rawData: WireData;
 }
 
 export interface RawMessageEventData {
   /** 消息是否已解码 */
   decoded: false;
-  /** 原始二进制数据（用于转发） */
-  rawData: ArrayBuffer;
+  /** 原始帧数据（用于转发），文本帧为字符串 */
+  rawData: WireData;
 }
 
 /**
@@ -126,6 +474,8 @@ export const SocketEvent = {
   Reconnecting: 'reconnecting',
   Reconnected: 'reconnected',
   ReconnectFailed: 'reconnect_failed',
+  EndpointChanged: 'endpointChanged',
+  AuthFailed: 'authFailed',
 } as const;
 
 /**
@@ -135,17 +485,25 @@ export interface SocketEvents extends Record<string, unknown> {
   /** 连接打开 */
   open: Event;
   /** 连接关闭 */
-  close: CloseEvent;
+  close: TransportCloseEvent;
   /** 连接错误 */
   error: Event;
   /** 收到消息 */
   message: MessageEventData;
   /** 重连中 */
-  reconnecting: { attempt: number; maxAttempts: number };
-  /** 重连成功 */
-  reconnected: undefined;
+  reconnecting: { attempt: number; maxAttempts: number; delay: number };
+  /** 重连成功（attempts 为本轮重连次数，downtime 为断线时长毫秒） */
+  reconnected: { attempts: number; downtime: number };
   /** 重连失败 */
   reconnect_failed: undefined;
+  /** 切换端点（previous 为此前连接的端点） */
+  endpointChanged: {
+    url: string;
+    previous: string;
+    reason: EndpointChangeReason;
+  };
+  /** 鉴权失败（随后以 4001 关闭连接） */
+  authFailed: { error: Error } & AuthContext;
 }
 
 /**
@@ -159,18 +517,52 @@ export type EventListener<T = unknown> = (data: T) => void;
 export interface RequestMetadata {
   /** 请求 ID */
   id: string | number;
+  /** 方法名 */
+  method?: string;
   /** 发送时间戳 */
   timestamp: number;
   /** 超时定时器 */
   timeoutId: NodeJS.Timeout;
-  /** 成功回调 */
-  resolve: (value: unknown) => void;
+  /** 成功回调（收到原始响应，错误响应在中间件之后再转换为异常） */
+  resolve: (response: JsonRpcResponse) => void;
   /** 失败回调 */
   reject: (error: Error) => void;
 }
 
 /**
- * 性能统计
+ * 延迟统计（毫秒），分位数来自对数分桶直方图，相对误差不超过 2%
+ */
+export interface LatencyStats {
+  /** 样本数 */
+  count: number;
+  /** 平均值 */
+  mean: number;
+  /** 中位数 */
+  p50: number;
+  /** 90 分位 */
+  p90: number;
+  /** 99 分位 */
+  p99: number;
+  /** 最大值 */
+  max: number;
+}
+
+/**
+ * 单个方法的统计
+ */
+export interface MethodStats {
+  /** 发送次数（请求、通知与流式请求） */
+  calls: number;
+  /** 错误响应数 */
+  errors: number;
+  /** 超时数 */
+  timeouts: number;
+  /** 响应时间（仅请求） */
+  latency: LatencyStats;
+}
+
+/**
+ * 性能统计（自创建或上次 resetStats() 起）
  */
 export interface PerformanceStats {
   /** 发送的请求总数 */
@@ -183,8 +575,28 @@ export interface PerformanceStats {
   errors: number;
   /** 平均响应时间（毫秒） */
   averageResponseTime: number;
+  /** 响应时间分布 */
+  latency: LatencyStats;
+  /** 按方法名的统计 */
+  methods: Record<string, MethodStats>;
+  /** 发送的字节数 */
+  bytesSent: number;
+  /** 接收的字节数 */
+  bytesReceived: number;
   /** 当前待处理请求数 */
   pendingRequests: number;
+  /** 当前等待并发额度或限速令牌的调用数 */
+  queuedCalls: number;
+  /** 调用等待并发额度与限速令牌的时间分布（仅配置限制时记录） */
+  queueWait: LatencyStats;
   /** 重连次数 */
   reconnectCount: number;
+  /** 请求重试次数 */
+  retries: number;
+  /** 最近一次心跳往返时间（毫秒），尚无数据时为 0 */
+  heartbeatRtt: number;
+  /** 平均心跳往返时间（毫秒） */
+  averageHeartbeatRtt: number;
+  /** 丢失的心跳应答数 */
+  missedHeartbeats: number;
 }
@@ -0,0 +1,42 @@
+/**
+ * 链路追踪类型定义
+ * 不依赖任何追踪库，可由 OpenTelemetry 等实现适配
+ */
+
+/**
+ * 调用类型
+ */
+export type SpanKind = 'request' | 'notification' | 'stream';
+
+/**
+ * 创建 span 的参数
+ */
+export interface SpanOptions {
+  /** 调用类型 */
+  kind: SpanKind;
+  /** 方法名 */
+  method: string;
+  /** 请求 ID（通知时为空） */
+  id?: string | number;
+}
+
+/**
+ * 一次调用的 span
+ */
+export interface Span {
+  /** 将追踪上下文写入载体（如 W3C traceparent / tracestate），写入的字段随消息发送 */
+  inject(carrier: Record<string, string>): void;
+  /** 记录事件（流式响应每收到一条数据记录一次 'message'） */
+  addEvent?(name: string): void;
+  /** 记录错误（错误响应、超时、中止或连接关闭），随后会调用 end() */
+  recordError(error: Error): void;
+  /** 结束 span（收到响应、调用失败或流关闭时） */
+  end(): void;
+}
+
+/**
+ * 追踪器：每次发送请求、通知或流式请求时创建 span
+ */
+export interface Tracer {
+  startSpan(name: string, options: SpanOptions): Span;
+}
@@ -0,0 +1,59 @@
+/**
+ * 传输层类型定义
+ * 客户端只依赖 Transport 接口，可运行在 WebSocket、MessagePort、Worker 或测试替身之上
+ */
+
+import type { WireData } from './codec';
+import type { ConnectionState, RawOutboundData } from './socket';
+
+/**
+ * 传输层关闭事件（与 WebSocket CloseEvent 的对应字段一致）
+ */
+export interface TransportCloseEvent {
+  /** 关闭码 */
+  code: number;
+  /** 关闭原因 */
+  reason: string;
+  /** 是否正常完成关闭握手 */
+  wasClean: boolean;
+}
+
+/**
+ * 传输层事件回调
+ */
+export interface TransportHandlers {
+  /** 连接已打开 */
+  open(event?: Event): void;
+  /** 收到一帧数据：文本帧为字符串，二进制帧为 ArrayBuffer */
+  message(data: WireData): void;
+  /** 连接已关闭（每个传输实例最多触发一次） */
+  close(event: TransportCloseEvent): void;
+  /** 连接错误 */
+  error(event: Event): void;
+}
+
+/**
+ * 传输层
+ */
+export interface Transport {
+  /** 连接状态 */
+  readonly readyState: ConnectionState;
+  /** 开始连接，事件通过 handlers 回调（每个实例只打开一次，重连时会创建新实例） */
+  open(handlers: TransportHandlers): void;
+  /** 发送一帧数据 */
+  send(data: RawOutboundData): void;
+  /** 关闭连接 */
+  close(code?: number, reason?: string): void;
+  /** 发送 ping 并等待 pong，超时则拒绝（可选，供 'ping' 心跳模式使用） */
+  ping?(timeout: number): Promise<void>;
+  /** 不等待关闭握手立即断开（可选，用于强制断开失效连接） */
+  terminate?(): void;
+}
+
+/**
+ * 传输层工厂：每次连接或重连时调用
+ */
+export type TransportFactory = (
+  url: string,
+  protocols?: string | string[],
+) => Transport;
@@ -0,0 +1,1979 @@
+import { WebSocket, WebSocketServer } from 'ws';
+import JSONRPCWebSocket, {
+  JsonRpcClientError,
+  JsonRpcErrorCode,
+  JsonRpcRemoteError,
+  JsonRpcTimeoutError,
+  JsonRpcQueueError,
+  JsonRpcWebSocketPool,
+  JsonRpcAbortError,
+  JsonRpcConnectionClosedError,
+  LoopbackTransport,
+  SocketEvent,
+  TrafficRecorder,
+  TrafficReplay,
+  defaultTransport,
+  decode,
+  encode,
+  exponentialBackoff,
+  parseRecording,
+  registerCodec,
+} from './dist/index.js';
+import { NodeWebSocketTransport, nodeTransport } from './dist/node.js';
+import { JsonRpcWebSocketServer } from './dist/server.js';
+import { MockJsonRpcServer } from './dist/testing.js';
+
+globalThis.WebSocket = WebSocket;
+
+function waitForOpen(client) {
+  return new Promise((resolve) => client.on(SocketEvent.Open, resolve));
+}
+
+function collectReplies(socket, count) {
+  return new Promise((resolve) => {
+    const replies = [];
+    socket.on('message', (data) => {
+      replies.push(decode(new Uint8Array(data)));
+      if (replies.length === count) {
+        resolve(replies);
+      }
+    });
+  });
+}
+
+async function withServer(handler) {
+  const server = new WebSocketServer({ port: 0 });
+  await new Promise((resolve) => server.once('listening', resolve));
+  const { port } = server.address();
+  server.on('connection', handler);
+
+  return {
+    url: `ws://127.0.0.1:${port}`,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+// 服务端发起的请求与通知
+let repliesPromise;
+let notifiedWith;
+const inboundServer = await withServer((socket) => {
+  repliesPromise = collectReplies(socket, 3);
+  socket.send(
+    encode({ jsonrpc: '2.0', method: 'news', params: { title: 'hi' } }),
+  );
+  socket.send(
+    encode({ jsonrpc: '2.0', method: 'math.add', params: [1, 2], id: 1 }),
+  );
+  socket.send(encode({ jsonrpc: '2.0', method: 'missing', id: 2 }));
+  socket.send(encode({ jsonrpc: '2.0', method: 'explode', id: 3 }));
+});
+const inboundClient = new JSONRPCWebSocket({
+  url: inboundServer.url,
+  autoReconnect: false,
+});
+inboundClient.handle('math.add', async ([a, b]) => a + b);
+inboundClient.handle('explode', () => {
+  throw new Error('boom');
+});
+inboundClient.onNotification('news', (params) => {
+  notifiedWith = params;
+});
+
+await waitForOpen(inboundClient);
+const replies = await repliesPromise;
+const replyById = new Map(replies.map((reply) => [reply.id, reply]));
+
+if (replyById.get(1)?.result !== 3) {
+  throw new Error('inbound request handler did not reply with result');
+}
+
+if (replyById.get(2)?.error?.code !== -32601) {
+  throw new Error('unknown inbound method did not reply MethodNotFound');
+}
+
+if (
+  replyById.get(3)?.error?.code !== -32603 ||
+  replyById.get(3)?.error?.message !== 'boom'
+) {
+  throw new Error('throwing inbound handler did not reply InternalError');
+}
+
+if (notifiedWith?.title !== 'hi') {
+  throw new Error('inbound notification handler was not called');
+}
+
+inboundClient.close();
+await inboundServer.close();
+
+// 批量请求：乱序响应与部分失败
+let receivedBatch;
+const batchServer = await withServer((socket) => {
+  socket.on('message', (data) => {
+    const message = decode(new Uint8Array(data));
+    if (message.method === 'malformed') {
+      socket.send(
+        encode([null, 42, { jsonrpc: '2.0', result: 'ok', id: message.id }]),
+      );
+      return;
+    }
+    receivedBatch = message;
+    const [first, second] = receivedBatch;
+    socket.send(
+      encode([
+        {
+          jsonrpc: '2.0',
+          error: { code: -32602, message: 'bad params' },
+          id: second.id,
+        },
+        { jsonrpc: '2.0', result: 'first', id: first.id },
+      ]),
+    );
+  });
+});
+const batchClient = new JSONRPCWebSocket({
+  url: batchServer.url,
+  autoReconnect: false,
+});
+await waitForOpen(batchClient);
+
+const batch = batchClient.batch();
+const firstResult = batch.request({ method: 'a' });
+const secondResult = batch.request({ method: 'b' });
+batch.notify({ method: 'c' });
+await batch.send();
+
+const [firstSettled, secondSettled] = await Promise.allSettled([
+  firstResult,
+  secondResult,
+]);
+
+if (receivedBatch.length !== 3 || 'id' in receivedBatch[2]) {
+  throw new Error('batch was not sent as a single array frame');
+}
+
+if (firstSettled.value !== 'first' || secondSettled.status !== 'rejected') {
+  throw new Error('batch responses were not settled individually');
+}
+
+// 响应帧中的无效条目被跳过，同一帧中的有效响应照常结算
+const malformedResult = await batchClient
+  .request({ method: 'malformed', timeout: 200 })
+  .catch((error) => error);
+
+if (malformedResult !== 'ok') {
+  throw new Error('malformed batch entries dropped valid responses');
+}
+
+let emptyBatchFailed = false;
+
+try {
+  await batchClient.batch().send();
+} catch (error) {
+  emptyBatchFailed = error instanceof Error && error.message.includes('empty');
+}
+
+if (!emptyBatchFailed) {
+  throw new Error('empty batch did not fail');
+}
+
+batchClient.close();
+await batchServer.close();
+
+// 离线队列：连接打开前的调用按顺序发送
+const queueOrder = [];
+const queueServer = await withServer((socket) => {
+  socket.on('message', (data) => {
+    const message = decode(new Uint8Array(data));
+    queueOrder.push(message.method);
+    if ('id' in message) {
+      socket.send(
+        encode({ jsonrpc: '2.0', result: message.method, id: message.id }),
+      );
+    }
+  });
+});
+const queueClient = new JSONRPCWebSocket({
+  url: queueServer.url,
+  autoReconnect: false,
+  queueWhileDisconnected: true,
+});
+const queuedNotify = queueClient.notify({ method: 'first' });
+const queuedResult = await queueClient.request({ method: 'second' });
+await queuedNotify;
+
+if (queuedResult !== 'second' || queueOrder.join() !== 'first,second') {
+  throw new Error('offline queue did not flush in order on open');
+}
+
+queueClient.close();
+
+const closingClient = new JSONRPCWebSocket({
+  url: queueServer.url,
+  autoReconnect: false,
+  queueWhileDisconnected: true,
+});
+const rejectedByClose = closingClient.request({ method: 'never' });
+closingClient.close();
+
+try {
+  await rejectedByClose;
+  throw new Error('queued request was not rejected on close');
+} catch (error) {
+  if (
+    !(error instanceof JsonRpcQueueError) ||
+    !(error instanceof JsonRpcClientError) ||
+    error.code !== JsonRpcErrorCode.QueueRejected ||
+    error.reason !== 'closed'
+  ) {
+    throw error;
+  }
+}
+
+await queueServer.close();
+
+// 重连策略：指数退避 + 全抖动，策略违规关闭码立即停止
+const backoff = exponentialBackoff({ initialDelay: 100, maxDelay: 400 });
+for (let attempt = 1; attempt <= 10; attempt++) {
+  const delay = backoff({ attempt });
+  if (delay < 0 || delay >= Math.min(400, 100 * 2 ** (attempt - 1))) {
+    throw new Error('exponential backoff delay out of range');
+  }
+}
+
+const policyServer = await withServer((socket) => {
+  socket.close(1008, 'policy violation');
+});
+const policyContexts = [];
+const policyClient = new JSONRPCWebSocket({
+  url: policyServer.url,
+  reconnectPolicy: (context) => {
+    policyContexts.push(context);
+    return backoff(context);
+  },
+});
+await new Promise((resolve) =>
+  policyClient.on(SocketEvent.ReconnectFailed, resolve),
+);
+
+if (policyContexts.length !== 1 || policyContexts[0].closeEvent.code !== 1008) {
+  throw new Error('reconnect policy did not stop on policy violation');
+}
+
+policyClient.close();
+await policyServer.close();
+
+// 重连后恢复流式订阅
+let streamConnections = 0;
+let resubscribedMethod;
+const serverResubscribed = new Promise((resolve) => {
+  resubscribedMethod = resolve;
+});
+const streamServer = await withServer((socket) => {
+  streamConnections++;
+  const connection = streamConnections;
+  socket.on('message', (data) => {
+    const message = decode(new Uint8Array(data));
+    if (connection === 1) {
+      if (message.method === 'ephemeral') {
+        socket.terminate();
+      }
+      return;
+    }
+    resubscribedMethod(message.method);
+  });
+});
+const streamClient = new JSONRPCWebSocket({
+  url: streamServer.url,
+  reconnectInterval: 20,
+});
+await waitForOpen(streamClient);
+
+const durable = streamClient.stream(
+  { method: 'ticker', params: { symbol: 'AAPL' } },
+  () => undefined,
+);
+const durableResubscribed = new Promise((resolve) =>
+  durable.on('resubscribe', resolve),
+);
+let ephemeralError;
+const ephemeral = streamClient.stream(
+  { method: 'ephemeral', resubscribe: false },
+  (response) => {
+    ephemeralError = response.error;
+  },
+);
+const ephemeralLost = new Promise((resolve) => ephemeral.on('lost', resolve));
+const reconnected = new Promise((resolve) =>
+  streamClient.on(SocketEvent.Reconnected, resolve),
+);
+
+const reconnectInfo = await reconnected;
+await durableResubscribed;
+await ephemeralLost;
+const resubscribed = await serverResubscribed;
+
+if (
+  reconnectInfo.attempts !== 1 ||
+  typeof reconnectInfo.downtime !== 'number'
+) {
+  throw new Error('reconnected event did not report attempts and downtime');
+}
+
+if (resubscribed !== 'ticker' || durable.closed) {
+  throw new Error('active stream was not resubscribed after reconnect');
+}
+
+if (!ephemeral.closed || ephemeralError?.code !== -32002) {
+  throw new Error('opted-out stream did not end with an error');
+}
+
+streamClient.close();
+await streamServer.close();
+
+// 中止请求与流，并通知服务端取消
+const cancelledIds = [];
+let cancelsReceived;
+const cancelsPromise = new Promise((resolve) => {
+  cancelsReceived = resolve;
+});
+const abortServer = await withServer((socket) => {
+  socket.on('message', (data) => {
+    const message = decode(new Uint8Array(data));
+    if (message.method === '$/cancelRequest') {
+      cancelledIds.push(message.params.id);
+      if (cancelledIds.length === 2) {
+        cancelsReceived();
+      }
+    }
+  });
+});
+const abortClient = new JSONRPCWebSocket({
+  url: abortServer.url,
+  autoReconnect: false,
+  cancelMethod: '$/cancelRequest',
+});
+await waitForOpen(abortClient);
+
+const controller = new AbortController();
+const aborted = abortClient.request({
+  method: 'slow',
+  id: 'slow-1',
+  signal: controller.signal,
+});
+controller.abort();
+
+try {
+  await aborted;
+  throw new Error('aborted request resolved');
+} catch (error) {
+  if (error.name !== 'AbortError') {
+    throw error;
+  }
+}
+
+const cancelledStream = abortClient.stream(
+  { method: 'feed', id: 'feed-1' },
+  () => undefined,
+);
+cancelledStream.close();
+await cancelsPromise;
+
+if (cancelledIds.join() !== 'slow-1,feed-1') {
+  throw new Error('cancel notifications were not sent on abort and close');
+}
+
+if (abortClient.getStats().pendingRequests !== 0) {
+  throw new Error('aborted request was left pending');
+}
+
+abortClient.close();
+await abortServer.close();
+
+// 方法代理：点分方法名
+let proxiedRequest;
+const proxyServer = await withServer((socket) => {
+  socket.on('message', (data) => {
+    proxiedRequest = decode(new Uint8Array(data));
+    socket.send(
+      encode({ jsonrpc: '2.0', result: 'token', id: proxiedRequest.id }),
+    );
+  });
+});
+const proxyClient = new JSONRPCWebSocket({
+  url: proxyServer.url,
+  autoReconnect: false,
+});
+await waitForOpen(proxyClient);
+
+const api = proxyClient.proxy();
+const token = await api.user.login({ username: 'alice' }, { timeout: 1000 });
+
+if (
+  token !== 'token' ||
+  proxiedRequest.method !== 'user.login' ||
+  proxiedRequest.params.username !== 'alice'
+) {
+  throw new Error('api proxy did not map dotted method names');
+}
+
+proxyClient.close();
+await proxyServer.close();
+
+// 结构化错误与按错误码注册的错误子类
+class InsufficientFundsError extends JsonRpcRemoteError {}
+
+const errorServer = await withServer((socket) => {
+  socket.on('message', (data) => {
+    const message = decode(new Uint8Array(data));
+    if (message.method === 'pay') {
+      socket.send(
+        encode({
+          jsonrpc: '2.0',
+          error: { code: 1001, message: 'insufficient', data: { need: 5 } },
+          id: message.id,
+        }),
+      );
+    } else if (message.method === 'fail') {
+      socket.send(
+        encode({
+          jsonrpc: '2.0',
+          error: { code: -32602, message: 'bad params', data: ['a'] },
+          id: message.id,
+        }),
+      );
+    }
+  });
+});
+const errorClient = new JSONRPCWebSocket({
+  url: errorServer.url,
+  autoReconnect: false,
+  errorClasses: { 1001: InsufficientFundsError },
+});
+await waitForOpen(errorClient);
+
+const [paySettled, failSettled, timeoutSettled] = await Promise.allSettled([
+  errorClient.request({ method: 'pay' }),
+  errorClient.request({ method: 'fail', id: 'fail-1' }),
+  errorClient.request({ method: 'hang', timeout: 20 }),
+]);
+
+if (
+  !(paySettled.reason instanceof InsufficientFundsError) ||
+  paySettled.reason.data.need !== 5
+) {
+  throw new Error('registered error class was not used');
+}
+
+if (
+  !(failSettled.reason instanceof JsonRpcRemoteError) ||
+  failSettled.reason.code !== JsonRpcErrorCode.InvalidParams ||
+  failSettled.reason.data[0] !== 'a' ||
+  failSettled.reason.id !== 'fail-1' ||
+  failSettled.reason.method !== 'fail'
+) {
+  throw new Error('remote error did not keep code, data, id and method');
+}
+
+if (
+  !(timeoutSettled.reason instanceof JsonRpcTimeoutError) ||
+  timeoutSettled.reason.code !== JsonRpcErrorCode.Timeout
+) {
+  throw new Error('timeout did not reject with JsonRpcTimeoutError');
+}
+
+errorClient.close();
+await errorServer.close();
+
+// 中间件：注入参数、洋葱顺序、短路与改写错误
+const middlewareSeen = [];
+const middlewareServer = await withServer((socket) => {
+  socket.on('message', (data) => {
+    const message = decode(new Uint8Array(data));
+    middlewareSeen.push(message);
+    if (message.id === undefined) {
+      return;
+    }
+    socket.send(
+      encode(
+        message.method === 'deny'
+          ? {
+              jsonrpc: '2.0',
+              error: { code: 403, message: 'denied' },
+              id: message.id,
+            }
+          : { jsonrpc: '2.0', result: message.params.token, id: message.id },
+      ),
+    );
+  });
+});
+const middlewareClient = new JSONRPCWebSocket({
+  url: middlewareServer.url,
+  autoReconnect: false,
+});
+const order = [];
+middlewareClient.use(async (context, next) => {
+  order.push('outer:before');
+  await next();
+  order.push('outer:after');
+});
+middlewareClient.use(async (context, next) => {
+  if (context.message.method === 'cached') {
+    context.response = { jsonrpc: '2.0', result: 'local', id: null };
+    return;
+  }
+  context.message.params = { ...context.message.params, token: 'secret' };
+  order.push('inner:before');
+  await next();
+  order.push('inner:after');
+  if (context.response && 'error' in context.response) {
+    context.response = { jsonrpc: '2.0', result: 'fallback', id: null };
+  }
+});
+await waitForOpen(middlewareClient);
+
+const injected = await middlewareClient.request({ method: 'echo' });
+const cached = await middlewareClient.request({ method: 'cached' });
+const rewritten = await middlewareClient.request({ method: 'deny' });
+await middlewareClient.notify({ method: 'log' });
+
+if (injected !== 'secret' || middlewareSeen[0].params.token !== 'secret') {
+  throw new Error('middleware did not inject params before encode');
+}
+
+if (
+  order.slice(0, 4).join() !==
+  'outer:before,inner:before,inner:after,outer:after'
+) {
+  throw new Error('middleware did not run in onion order');
+}
+
+if (cached !== 'local' || middlewareSeen.some((m) => m.method === 'cached')) {
+  throw new Error('middleware short-circuit still sent the request');
+}
+
+if (rewritten !== 'fallback') {
+  throw new Error('middleware could not rewrite error responses');
+}
+
+middlewareClient.close();
+await middlewareServer.close();
+
+// 重试：超时后重试，跨重连透明重试幂等方法，变更方法不重试
+let retryConnections = 0;
+const retryCalls = [];
+const retryServer = await withServer((socket) => {
+  retryConnections++;
+  const connection = retryConnections;
+  socket.on('message', (data) => {
+    const message = decode(new Uint8Array(data));
+    retryCalls.push(`${connection}:${message.method}`);
+    if (connection === 1 && message.method === 'user.get') {
+      socket.terminate();
+      return;
+    }
+    if (message.method === 'flaky' && retryCalls.length < 5) {
+      return;
+    }
+    socket.send(
+      encode({ jsonrpc: '2.0', result: message.method, id: message.id }),
+    );
+  });
+});
+const retryClient = new JSONRPCWebSocket({
+  url: retryServer.url,
+  reconnectInterval: 20,
+  retryRules: [{ match: 'user.get*', attempts: 2 }],
+});
+await waitForOpen(retryClient);
+
+const reread = await retryClient.request({ method: 'user.get' });
+
+if (reread !== 'user.get' || retryCalls.join() !== '1:user.get,2:user.get') {
+  throw new Error('idempotent request was not retried across reconnect');
+}
+
+const flaky = await retryClient.request({
+  method: 'flaky',
+  timeout: 30,
+  retry: { attempts: 3, backoff: 5 },
+});
+
+if (flaky !== 'flaky' || retryClient.getStats().retries !== 3) {
+  throw new Error('request retry did not recover or was not counted');
+}
+
+retryClient.close();
+await retryServer.close();
+
+// 心跳：ping 帧记录往返时间，请求心跳连续无应答时强制断开并重连
+let pingsReceived = 0;
+const pingServer = await withServer((socket) => {
+  socket.on('ping', () => pingsReceived++);
+});
+const pingClient = new JSONRPCWebSocket({
+  url: pingServer.url,
+  transport: nodeTransport,
+  autoReconnect: false,
+  heartbeatInterval: 10,
+  heartbeatMode: 'ping',
+  heartbeatTimeout: 30,
+  maxMissedHeartbeats: 1,
+});
+await waitForOpen(pingClient);
+await new Promise((resolve) => setTimeout(resolve, 60));
+
+if (
+  pingsReceived === 0 ||
+  pingClient.getStats().missedHeartbeats !== 0 ||
+  !pingClient.isConnected
+) {
+  throw new Error('ping heartbeat did not receive pongs');
+}
+
+pingClient.close();
+await pingServer.close();
+
+let heartbeatConnections = 0;
+let heartbeatsAnswered = 0;
+const silentServer = await withServer((socket) => {
+  heartbeatConnections++;
+  if (heartbeatConnections > 1) {
+    socket.on('message', (data) => {
+      const message = decode(new Uint8Array(data));
+      heartbeatsAnswered++;
+      socket.send(encode({ jsonrpc: '2.0', result: 'pong', id: message.id }));
+    });
+  }
+});
+const heartbeatClient = new JSONRPCWebSocket({
+  url: silentServer.url,
+  reconnectInterval: 10,
+  heartbeatInterval: 20,
+  heartbeatMode: 'request',
+  heartbeatTimeout: 15,
+  maxMissedHeartbeats: 2,
+});
+// 心跳不经过中间件
+let heartbeatMiddlewareCalls = 0;
+heartbeatClient.use(async (_context, next) => {
+  heartbeatMiddlewareCalls++;
+  await next();
+});
+const deadClose = new Promise((resolve) =>
+  heartbeatClient.on(SocketEvent.Close, resolve),
+);
+const revived = new Promise((resolve) =>
+  heartbeatClient.on(SocketEvent.Reconnected, resolve),
+);
+
+if ((await deadClose).code !== 4000) {
+  throw new Error('dead connection was not force-closed');
+}
+
+await revived;
+await new Promise((resolve) => setTimeout(resolve, 60));
+
+if (
+  heartbeatClient.getStats().missedHeartbeats !== 2 ||
+  heartbeatsAnswered === 0 ||
+  heartbeatMiddlewareCalls !== 0 ||
+  heartbeatClient.getStats().requestsSent !== 0 ||
+  heartbeatClient.getStats().responsesReceived !== 0 ||
+  heartbeatClient.getStats().latency.count !== 0 ||
+  Object.keys(heartbeatClient.getStats().methods).length !== 0 ||
+  !heartbeatClient.isConnected
+) {
+  throw new Error('heartbeat misses were not recorded or connection not kept');
+}
+
+heartbeatClient.close();
+await silentServer.close();
+
+// 异步迭代流：结束标记、错误响应、空闲超时、缓冲溢出与断线
+const iterServer = await withServer((socket) => {
+  socket.on('message', (data) => {
+    const { id, method } = decode(new Uint8Array(data));
+    const push = (body) => socket.send(encode({ jsonrpc: '2.0', id, ...body }));
+    if (method === 'count') {
+      for (const result of [1, 2, 3, null]) push({ result });
+    } else if (method === 'broken') {
+      push({ result: 'a' });
+      push({ error: { code: 1234, message: 'stream failed' } });
+    } else if (method === 'burst') {
+      for (const result of [1, 2, 3, 4, 5, 'done']) push({ result });
+    } else if (method === 'drop') {
+      push({ result: 'x' });
+      setTimeout(() => socket.terminate(), 10);
+    }
+  });
+});
+const iterClient = new JSONRPCWebSocket({
+  url: iterServer.url,
+  autoReconnect: false,
+});
+await waitForOpen(iterClient);
+
+const counted = [];
+for await (const n of iterClient.streamIterator({ method: 'count' })) {
+  counted.push(n);
+}
+
+if (counted.join() !== '1,2,3') {
+  throw new Error('stream iterator did not end on the terminal marker');
+}
+
+const brokenItems = [];
+let brokenError;
+try {
+  for await (const item of iterClient.streamIterator({ method: 'broken' })) {
+    brokenItems.push(item);
+  }
+} catch (error) {
+  brokenError = error;
+}
+
+if (brokenItems.join() !== 'a' || brokenError?.code !== 1234) {
+  throw new Error('stream iterator did not throw on an error response');
+}
+
+const idleError = await iterClient
+  .streamIterator({ method: 'silent', idleTimeout: 30 })
+  .next()
+  .catch((error) => error);
+
+if (!(idleError instanceof JsonRpcTimeoutError)) {
+  throw new Error('stream iterator did not time out while idle');
+}
+
+const burst = iterClient.streamIterator({
+  method: 'burst',
+  bufferSize: 2,
+  overflow: 'drop-oldest',
+  isEnd: (result) => result === 'done',
+});
+await new Promise((resolve) => setTimeout(resolve, 30));
+const kept = [];
+for await (const n of burst) kept.push(n);
+
+if (kept.join() !== '4,5' || !burst.closed) {
+  throw new Error('stream iterator overflow policy was not applied');
+}
+
+// 迭代结束后移除中止信号监听
+let abortListeners = 0;
+const countedSignal = {
+  aborted: false,
+  addEventListener: () => abortListeners++,
+  removeEventListener: () => abortListeners--,
+};
+for await (const _n of iterClient.streamIterator({
+  method: 'count',
+  signal: countedSignal,
+})) {
+  // 消费到结束标记
+}
+const stopped = iterClient.streamIterator({
+  method: 'burst',
+  signal: countedSignal,
+});
+await stopped.next();
+await stopped.return();
+
+if (abortListeners !== 0) {
+  throw new Error('stream iterator leaked abort listeners');
+}
+
+const dropped = iterClient.streamIterator({ method: 'drop' });
+const first = await dropped.next();
+const lostError = await dropped.next().catch((error) => error);
+
+if (
+  first.value !== 'x' ||
+  !(lostError instanceof JsonRpcConnectionClosedError)
+) {
+  throw new Error('stream iterator did not reject on connection close');
+}
+
+// 迭代器默认不重新订阅：客户端自动重连时仍以连接关闭结束；开启后通过 resubscribe 事件感知
+const reconnectingIterClient = new JSONRPCWebSocket({
+  url: iterServer.url,
+  reconnectInterval: 10,
+});
+await waitForOpen(reconnectingIterClient);
+const defaultIterator = reconnectingIterClient.streamIterator({
+  method: 'drop',
+});
+await defaultIterator.next();
+const defaultLost = await defaultIterator.next().catch((error) => error);
+await new Promise((resolve) =>
+  reconnectingIterClient.on(SocketEvent.Reconnected, resolve),
+);
+const durableIterator = reconnectingIterClient.streamIterator({
+  method: 'drop',
+  resubscribe: true,
+});
+const durableResubscribes = [];
+durableIterator.on('resubscribe', ({ attempt }) =>
+  durableResubscribes.push(attempt),
+);
+const durableItems = [
+  (await durableIterator.next()).value,
+  (await durableIterator.next()).value,
+];
+await durableIterator.return();
+
+if (
+  !(defaultLost instanceof JsonRpcConnectionClosedError) ||
+  durableItems.join() !== 'x,x' ||
+  durableResubscribes.length === 0
+) {
+  throw new Error('stream iterator resubscribe default was not applied');
+}
+
+reconnectingIterClient.close();
+
+iterClient.close();
+await iterServer.close();
+
+// 编解码器：JSON 文本帧、auto 按帧类型解码、自定义编解码器
+const textFrames = [];
+const codecServer = await withServer((socket) => {
+  socket.on('message', (data, isBinary) => {
+    if (isBinary) {
+      const message = decode(new Uint8Array(data));
+      socket.send(encode({ jsonrpc: '2.0', result: 'binary', id: message.id }));
+      return;
+    }
+    const message = JSON.parse(data.toString());
+    textFrames.push(message.method);
+    const reply = { jsonrpc: '2.0', result: 'text', id: message.id };
+    socket.send(
+      message.method === 'reverse'
+        ? JSON.stringify(reply).split('').reverse().join('')
+        : JSON.stringify(reply),
+    );
+  });
+});
+const jsonClient = new JSONRPCWebSocket({
+  url: codecServer.url,
+  autoReconnect: false,
+  inboundMode: 'json',
+  outboundMode: 'json',
+});
+await waitForOpen(jsonClient);
+
+if ((await jsonClient.request({ method: 'echo' })) !== 'text') {
+  throw new Error('json codec did not round-trip text frames');
+}
+
+jsonClient.close();
+
+const autoClient = new JSONRPCWebSocket({
+  url: codecServer.url,
+  autoReconnect: false,
+  inboundMode: 'auto',
+  outboundMode: 'messagepack',
+});
+await waitForOpen(autoClient);
+
+if ((await autoClient.request({ method: 'echo' })) !== 'binary') {
+  throw new Error('auto codec did not decode binary frames');
+}
+
+autoClient.close();
+
+registerCodec({
+  name: 'reversed-json',
+  encode: (message) => JSON.stringify(message),
+  decode: (data) => JSON.parse(String(data).split('').reverse().join('')),
+});
+const customClient = new JSONRPCWebSocket({
+  url: codecServer.url,
+  autoReconnect: false,
+  inboundMode: 'reversed-json',
+  outboundMode: 'json',
+});
+await waitForOpen(customClient);
+
+if (
+  (await customClient.request({ method: 'reverse' })) !== 'text' ||
+  textFrames.join() !== 'echo,reverse'
+) {
+  throw new Error('registered codec was not used');
+}
+
+customClient.close();
+await codecServer.close();
+
+// 传输层：内存回环，不依赖全局 WebSocket
+const [clientEnd, serverEnd] = LoopbackTransport.pair();
+let loopbackClosed;
+serverEnd.open({
+  open() {},
+  message(data) {
+    const message = decode(new Uint8Array(data));
+    serverEnd.send(
+      encode({ jsonrpc: '2.0', result: message.params.x * 2, id: message.id }),
+    );
+  },
+  close(event) {
+    loopbackClosed = event;
+  },
+  error() {},
+});
+const loopbackClient = new JSONRPCWebSocket({
+  url: 'loopback://',
+  transport: () => clientEnd,
+  autoReconnect: false,
+});
+await waitForOpen(loopbackClient);
+
+if (
+  (await loopbackClient.request({ method: 'double', params: { x: 21 } })) !== 42
+) {
+  throw new Error('loopback transport did not carry the request');
+}
+
+loopbackClient.close(1000, 'done');
+await new Promise((resolve) => setTimeout(resolve, 0));
+
+if (loopbackClosed?.reason !== 'done') {
+  throw new Error('loopback transport did not close the peer');
+}
+
+// 服务端：方法、连接上下文、流式响应与取消、广播、服务端发起请求
+const rpcServer = new JsonRpcWebSocketServer({
+  port: 0,
+  cancelMethod: '$/cancel',
+  context: ({ request }) => ({
+    user: new URL(request.url, 'ws://localhost').searchParams.get('user'),
+  }),
+});
+await rpcServer.ready();
+let tickerCancelled = false;
+rpcServer.handle('whoami', (_params, { context }) => context.user);
+rpcServer.handle('deny', () => {
+  throw new JsonRpcRemoteError({ code: 4003, message: 'denied' });
+});
+rpcServer.handle('ticks', async function* ({ count }) {
+  for (let i = 1; i <= count; i++) yield i;
+});
+rpcServer.handle('ticker', async function* (_params, { signal }) {
+  signal.addEventListener('abort', () => {
+    tickerCancelled = true;
+  });
+  for (let i = 0; ; i++) {
+    yield i;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+});
+const rpcUrl = `ws://127.0.0.1:${rpcServer.address().port}`;
+const alice = new JSONRPCWebSocket({
+  url: `${rpcUrl}?user=alice`,
+  autoReconnect: false,
+  cancelMethod: '$/cancel',
+});
+const bob = new JSONRPCWebSocket({
+  url: `${rpcUrl}?user=bob`,
+  autoReconnect: false,
+});
+alice.handle('client.add', ([a, b]) => a + b);
+const bobNews = [];
+const aliceNews = [];
+bob.onNotification('news', (params) => bobNews.push(params));
+alice.onNotification('news', (params) => aliceNews.push(params));
+await Promise.all([waitForOpen(alice), waitForOpen(bob)]);
+
+if ((await alice.request({ method: 'whoami' })) !== 'alice') {
+  throw new Error('server did not expose per-connection context');
+}
+
+const denied = await alice.request({ method: 'deny' }).catch((error) => error);
+
+if (denied.code !== 4003) {
+  throw new Error('server did not map handler errors to error responses');
+}
+
+const ticks = [];
+for await (const n of alice.streamIterator({
+  method: 'ticks',
+  params: { count: 3 },
+})) {
+  ticks.push(n);
+}
+
+if (ticks.join() !== '1,2,3') {
+  throw new Error('server stream did not line up with client iteration');
+}
+
+for await (const n of alice.streamIterator({ method: 'ticker' })) {
+  if (n >= 1) break;
+}
+await new Promise((resolve) => setTimeout(resolve, 30));
+
+if (!tickerCancelled) {
+  throw new Error('client cancel did not stop the server stream');
+}
+
+const sent = rpcServer.broadcast(
+  'news',
+  'bob only',
+  (connection) => connection.context.user === 'bob',
+);
+rpcServer.broadcast('news', 'everyone');
+await new Promise((resolve) => setTimeout(resolve, 20));
+
+if (
+  sent !== 1 ||
+  bobNews.join() !== 'bob only,everyone' ||
+  aliceNews.join() !== 'everyone'
+) {
+  throw new Error('server broadcast filter was not applied');
+}
+
+const aliceConnection = [...rpcServer.clients].find(
+  (connection) => connection.context.user === 'alice',
+);
+
+if ((await aliceConnection.request('client.add', [2, 3])) !== 5) {
+  throw new Error('server-to-client request failed');
+}
+
+alice.close();
+bob.close();
+await rpcServer.close();
+
+// 测试工具：预设响应、延迟、断线、畸形帧、推送与调用断言
+const mock = await MockJsonRpcServer.start({ latency: 5 });
+mock
+  .respond('user.get', { name: 'alice' })
+  .fail('order.pay', { code: 1001, message: 'insufficient funds' })
+  .respond('flaky', 'first', { times: 1 })
+  .respond('flaky', 'later')
+  .stream('feed', ['a', 'b']);
+
+const mockClient = new JSONRPCWebSocket({
+  url: mock.url,
+  reconnectInterval: 10,
+});
+const mockPushes = [];
+mockClient.onNotification('tick', (params) => mockPushes.push(params));
+await waitForOpen(mockClient);
+
+const mockUser = await mockClient.request({
+  method: 'user.get',
+  params: { id: 1 },
+});
+const payError = await mockClient
+  .request({ method: 'order.pay' })
+  .catch((error) => error);
+const flakyReplies = [
+  await mockClient.request({ method: 'flaky' }),
+  await mockClient.request({ method: 'flaky' }),
+];
+const feed = [];
+for await (const item of mockClient.streamIterator({ method: 'feed' })) {
+  feed.push(item);
+}
+const unknown = await mockClient
+  .request({ method: 'nope' })
+  .catch((error) => error);
+
+if (
+  mockUser.name !== 'alice' ||
+  !(payError instanceof JsonRpcRemoteError) ||
+  payError.code !== 1001 ||
+  flakyReplies.join() !== 'first,later' ||
+  feed.join() !== 'a,b' ||
+  unknown.code !== JsonRpcErrorCode.MethodNotFound
+) {
+  throw new Error('mock server canned replies were not served');
+}
+
+mock.assertCalled('user.get', { times: 1, params: { id: 1 } });
+mock.assertCalled('nope');
+mock.assertNotCalled('never');
+let assertionFailed = false;
+try {
+  mock.assertCalled('user.get', { params: { id: 2 } });
+} catch {
+  assertionFailed = true;
+}
+
+if (!assertionFailed) {
+  throw new Error('mock server assertion did not fail on param mismatch');
+}
+
+mock.push('tick', 1);
+mockClient.notify({ method: 'ack' });
+await mock.waitForCall('ack');
+mock.sendMalformed();
+
+const mockReconnected = new Promise((resolve) =>
+  mockClient.on(SocketEvent.Reconnected, resolve),
+);
+mock.terminate();
+await mockReconnected;
+
+if (
+  mockPushes.join() !== '1' ||
+  mock.callsTo('ack')[0]?.kind !== 'notification'
+) {
+  throw new Error('mock server pushes or notifications were not handled');
+}
+
+mockClient.close();
+await mock.close();
+
+const loopbackMock = await MockJsonRpcServer.start({ listen: false });
+loopbackMock.respond('ping', 'pong');
+const inProcessClient = new JSONRPCWebSocket({
+  url: 'mock://',
+  transport: loopbackMock.transport,
+  autoReconnect: false,
+});
+const inProcessPushes = [];
+inProcessClient.onNotification('hello', (params) =>
+  inProcessPushes.push(params),
+);
+await waitForOpen(inProcessClient);
+// 连接打开时服务端已登记连接，可立即推送与发起请求
+const connectedCount = loopbackMock.connections.length;
+loopbackMock.push('hello', 1);
+await new Promise((resolve) => setTimeout(resolve, 0));
+
+if (
+  connectedCount !== 1 ||
+  inProcessPushes.join() !== '1' ||
+  (await inProcessClient.request({ method: 'ping' })) !== 'pong'
+) {
+  throw new Error('mock server loopback transport failed');
+}
+
+inProcessClient.close();
+await loopbackMock.close();
+
+// 延迟连接：lazy 不自动连接，connect() / ready() / whenConnected() 可等待
+let lazyConnections = 0;
+const lazyServer = await withServer(() => {
+  lazyConnections++;
+});
+const lazyClient = new JSONRPCWebSocket({ url: lazyServer.url, lazy: true });
+const lazyTimeout = await lazyClient.whenConnected(20).catch((error) => error);
+
+if (
+  lazyConnections !== 0 ||
+  lazyClient.isConnected ||
+  !(lazyTimeout instanceof JsonRpcTimeoutError)
+) {
+  throw new Error('lazy client connected before connect()');
+}
+
+const lazyReady = lazyClient.ready();
+await lazyClient.connect();
+await lazyReady;
+await lazyClient.connect();
+
+if (!lazyClient.isConnected || lazyConnections !== 1) {
+  throw new Error('connect() did not open exactly one connection');
+}
+
+lazyClient.close();
+await lazyServer.close();
+
+const deadClient = new JSONRPCWebSocket({
+  url: lazyServer.url,
+  lazy: true,
+  reconnectInterval: 5,
+  maxReconnectAttempts: 2,
+});
+const deadReconnects = [];
+deadClient.on(SocketEvent.Reconnecting, ({ attempt }) =>
+  deadReconnects.push(attempt),
+);
+const deadError = await deadClient.connect().catch((error) => error);
+
+if (
+  !(deadError instanceof JsonRpcConnectionClosedError) ||
+  deadReconnects.join() !== '1,2'
+) {
+  throw new Error('connect() did not reject after the retry budget');
+}
+
+deadClient.close();
+
+// 多端点故障转移：主端点不可用时切换，恢复后切回，切换时保留监听器与排队调用
+const primaryMock = await MockJsonRpcServer.start({ listen: false });
+const backupMock = await MockJsonRpcServer.start({ listen: false });
+primaryMock.respond('whoami', 'primary');
+backupMock.respond('whoami', 'backup');
+let primaryUp = false;
+const failoverClient = new JSONRPCWebSocket({
+  url: ['mock://primary', 'mock://backup'],
+  transport: (url) => {
+    if (url === 'mock://backup') {
+      return backupMock.transport(url);
+    }
+    return primaryUp
+      ? primaryMock.transport(url)
+      : new NodeWebSocketTransport('ws://127.0.0.1:1');
+  },
+  reconnectPolicy: () => 5,
+  failoverThreshold: 2,
+  endpointCooldown: 20,
+  failbackInterval: 20,
+  queueWhileDisconnected: true,
+});
+const endpointChanges = [];
+let failoverOpens = 0;
+failoverClient.on(SocketEvent.EndpointChanged, ({ url, previous, reason }) =>
+  endpointChanges.push(`${reason}:${previous}->${url}`),
+);
+failoverClient.on(SocketEvent.Open, () => failoverOpens++);
+failoverClient.handle('client.kind', () => 'failover-client');
+await failoverClient.connect();
+const [primaryHealth] = failoverClient.getEndpoints();
+
+if (
+  failoverClient.endpoint !== 'mock://backup' ||
+  (await failoverClient.request({ method: 'whoami' })) !== 'backup' ||
+  endpointChanges.join() !== 'failover:mock://primary->mock://backup' ||
+  primaryHealth.healthy ||
+  primaryHealth.failures !== 2
+) {
+  throw new Error('client did not fail over to the backup endpoint');
+}
+
+primaryUp = true;
+await new Promise((resolve) =>
+  failoverClient.on(SocketEvent.EndpointChanged, resolve),
+);
+const primaryWhoami = failoverClient.request({ method: 'whoami' });
+
+if (
+  (await primaryWhoami) !== 'primary' ||
+  endpointChanges[1] !== 'failback:mock://backup->mock://primary' ||
+  !failoverClient.getEndpoints()[0].healthy ||
+  (await primaryMock.request('client.kind')) !== 'failover-client'
+) {
+  throw new Error('client did not fail back to the recovered primary');
+}
+
+failoverClient.reconnectToUrl('mock://backup');
+const manualWhoami = failoverClient.request({ method: 'whoami' });
+
+if (
+  (await manualWhoami) !== 'backup' ||
+  endpointChanges[2] !== 'manual:mock://primary->mock://backup' ||
+  failoverOpens !== 3 ||
+  (await backupMock.request(
+    'client.kind',
+    undefined,
+    backupMock.connections.at(-1),
+  )) !== 'failover-client'
+) {
+  throw new Error('reconnectToUrl() dropped listeners or queued calls');
+}
+
+failoverClient.close();
+await primaryMock.close();
+await backupMock.close();
+
+// 连接池：轮询与最少待处理请求路由，流固定在单个连接，汇总统计
+const poolMock = await MockJsonRpcServer.start({ listen: false });
+poolMock.respond('fast', 'ok');
+poolMock.respond('slow', 'done', { delay: 30 });
+poolMock.stream('ticks', [1, 2, 3]);
+const pool = new JsonRpcWebSocketPool({
+  url: 'mock://pool',
+  transport: poolMock.transport,
+  size: 3,
+});
+await pool.connect();
+await Promise.all(
+  [1, 2, 3, 4, 5, 6].map(() => pool.request({ method: 'fast' })),
+);
+const fastConnections = new Map();
+for (const call of poolMock.callsTo('fast')) {
+  fastConnections.set(
+    call.connectionId,
+    (fastConnections.get(call.connectionId) ?? 0) + 1,
+  );
+}
+
+if (
+  pool.connectedCount !== 3 ||
+  fastConnections.size !== 3 ||
+  [...fastConnections.values()].some((count) => count !== 2)
+) {
+  throw new Error('round-robin pool did not spread requests evenly');
+}
+
+const poolTicks = [];
+for await (const tick of pool.streamIterator({ method: 'ticks' })) {
+  poolTicks.push(tick);
+}
+const poolStats = pool.getStats();
+
+if (
+  poolTicks.join() !== '1,2,3' ||
+  poolStats.requestsSent !== 7 ||
+  poolStats.responsesReceived !== 10 ||
+  poolStats.pendingRequests !== 0
+) {
+  throw new Error('pool stream or aggregated stats are wrong');
+}
+
+pool.close();
+
+// 连接池分位数：合并各连接的延迟直方图，而非对分位数加权平均
+const quickMock = await MockJsonRpcServer.start({ listen: false });
+const laggyMock = await MockJsonRpcServer.start({ listen: false });
+quickMock.respond('work', 'quick');
+laggyMock.respond('work', 'laggy', { delay: 60 });
+let latencyPoolConnections = 0;
+const latencyPool = new JsonRpcWebSocketPool({
+  url: 'mock://latency',
+  transport: (url) =>
+    (latencyPoolConnections++ === 0 ? quickMock : laggyMock).transport(url),
+  size: 2,
+});
+await latencyPool.connect();
+for (let i = 0; i < 4; i++) {
+  await latencyPool.request({ method: 'work' });
+}
+const latencyPoolStats = latencyPool.getStats();
+
+if (
+  latencyPoolStats.latency.count !== 4 ||
+  latencyPoolStats.latency.p50 >= 30 ||
+  latencyPoolStats.latency.p90 < 55 ||
+  latencyPoolStats.latency.p99 < 55 ||
+  latencyPoolStats.methods.work.latency.p50 >= 30
+) {
+  throw new Error('pool latency percentiles were not merged from histograms');
+}
+
+latencyPool.close();
+await quickMock.close();
+await laggyMock.close();
+
+const leastPool = new JsonRpcWebSocketPool({
+  url: 'mock://pool',
+  transport: poolMock.transport,
+  size: 2,
+  routing: 'least-pending',
+});
+await leastPool.connect();
+poolMock.reset();
+poolMock.respond('fast', 'ok');
+poolMock.respond('slow', 'done', { delay: 30 });
+const slowCall = leastPool.request({ method: 'slow' });
+await poolMock.waitForCall('slow');
+const busyCounts = leastPool.clients.map((client) => client.pendingCount);
+for (let i = 0; i < 3; i++) {
+  await leastPool.request({ method: 'fast' });
+}
+const [slowRecorded] = poolMock.callsTo('slow');
+
+if (
+  (await slowCall) !== 'done' ||
+  busyCounts.sort().join() !== '0,1' ||
+  poolMock
+    .callsTo('fast')
+    .some((call) => call.connectionId === slowRecorded.connectionId)
+) {
+  throw new Error('least-pending pool routed to the busy connection');
+}
+
+leastPool.close();
+await poolMock.close();
+
+// 鉴权握手：每次连接后先鉴权，失败触发 authFailed 并按重连策略重连，其他调用等待鉴权完成
+const authMock = await MockJsonRpcServer.start({ listen: false });
+authMock.respond('app.data', 'secret');
+authMock.respond('login', true);
+authMock.fail(
+  'login',
+  { code: -32001, message: 'Token expired' },
+  { times: 1 },
+);
+const authContexts = [];
+const authFailures = [];
+const authEvents = [];
+const authClient = new JSONRPCWebSocket({
+  url: 'mock://auth',
+  transport: authMock.transport,
+  reconnectPolicy: () => 5,
+  queueWhileDisconnected: true,
+  authenticate: async (client, context) => {
+    authContexts.push(`${context.attempt}:${context.reconnect}`);
+    await client.request({ method: 'login', params: { token: 't' } });
+  },
+});
+authClient.on(SocketEvent.AuthFailed, ({ error }) =>
+  authFailures.push(error.code),
+);
+authClient.on(SocketEvent.Close, ({ code }) => authEvents.push(code));
+authClient.on(SocketEvent.Open, () => authEvents.push('open'));
+const authData = await authClient.request({ method: 'app.data' });
+
+if (
+  authData !== 'secret' ||
+  authMock.calls.map((call) => call.method).join() !== 'login,login,app.data' ||
+  authFailures.join() !== '-32001' ||
+  authEvents.join() !== '4001,open' ||
+  authContexts.join() !== '0:false,1:false'
+) {
+  throw new Error('authentication did not gate traffic until login');
+}
+
+authMock.disconnect();
+await new Promise((resolve) => authClient.once(SocketEvent.Open, resolve));
+
+if (authContexts[2] !== '1:true' || authMock.callsTo('login').length !== 3) {
+  throw new Error('authentication did not run again after reconnect');
+}
+
+authClient.close();
+await authMock.close();
+
+// 性能统计：延迟分位数、按方法统计、收发字节数与重置
+const statsMock = await MockJsonRpcServer.start({ listen: false });
+statsMock.respond('fast', 'ok');
+statsMock.respond('slow', 'ok', { delay: 40 });
+statsMock.fail('broken', { code: -32000, message: 'Broken' });
+statsMock.respond('stuck', 'late', { delay: 200 });
+const statsClient = new JSONRPCWebSocket({
+  url: 'mock://stats',
+  transport: statsMock.transport,
+});
+await statsClient.connect();
+for (let i = 0; i < 9; i++) {
+  await statsClient.request({ method: 'fast' });
+}
+await statsClient.request({ method: 'slow' });
+await statsClient.request({ method: 'broken' }).catch(() => undefined);
+await statsClient
+  .request({ method: 'stuck', timeout: 10 })
+  .catch(() => undefined);
+await statsClient.notify({ method: 'log' });
+const clientStats = statsClient.getStats();
+const { fast, slow, broken, stuck, log } = clientStats.methods;
+
+if (
+  clientStats.latency.count !== 11 ||
+  clientStats.latency.p50 > clientStats.latency.p99 ||
+  clientStats.latency.p99 < 39 ||
+  clientStats.latency.max < 40 ||
+  fast.calls !== 9 ||
+  fast.latency.count !== 9 ||
+  fast.latency.p99 >= 39 ||
+  slow.latency.p50 < 39 ||
+  broken.errors !== 1 ||
+  stuck.timeouts !== 1 ||
+  stuck.latency.count !== 0 ||
+  log.calls !== 1 ||
+  clientStats.bytesSent <= 0 ||
+  clientStats.bytesReceived <= 0
+) {
+  throw new Error('latency percentiles or per-method stats are wrong');
+}
+
+statsClient.resetStats();
+const resetStats = statsClient.getStats();
+
+if (
+  resetStats.requestsSent !== 0 ||
+  resetStats.bytesSent !== 0 ||
+  resetStats.latency.count !== 0 ||
+  Object.keys(resetStats.methods).length !== 0
+) {
+  throw new Error('resetStats() did not clear the statistics');
+}
+
+statsClient.close();
+await statsMock.close();
+
+// 链路追踪：每次调用创建 span，注入 traceparent，响应、错误、超时与流式数据均回调
+const traceMock = await MockJsonRpcServer.start({ listen: false });
+traceMock.handle('traced', (_params, { trace }) => trace?.traceparent);
+traceMock.fail('traced.fail', { code: -32000, message: 'Failed' });
+traceMock.respond('traced.slow', 'late', { delay: 100 });
+traceMock.stream('traced.ticks', [1, 2]);
+const spans = [];
+const tracedClient = new JSONRPCWebSocket({
+  url: 'mock://trace',
+  transport: traceMock.transport,
+  tracer: {
+    startSpan(name, { kind }) {
+      const span = {
+        name,
+        kind,
+        spanId: String(spans.length + 1).padStart(16, '0'),
+        events: [],
+        errors: [],
+        ended: false,
+        inject(carrier) {
+          carrier.traceparent = `00-${'a'.repeat(32)}-${span.spanId}-01`;
+        },
+        addEvent(event) {
+          span.events.push(event);
+        },
+        recordError(error) {
+          span.errors.push(error.name);
+        },
+        end() {
+          span.ended = true;
+        },
+      };
+      spans.push(span);
+      return span;
+    },
+  },
+});
+await tracedClient.connect();
+const tracedParent = await tracedClient.request({ method: 'traced' });
+await tracedClient.request({ method: 'traced.fail' }).catch(() => undefined);
+await tracedClient
+  .request({ method: 'traced.slow', timeout: 10 })
+  .catch(() => undefined);
+await tracedClient.notify({ method: 'traced.log' });
+for await (const _tick of tracedClient.streamIterator({
+  method: 'traced.ticks',
+})) {
+  // 消费完整个流
+}
+const spanSummary = spans.map(
+  ({ name, kind, errors, events }) =>
+    `${kind}:${name}:${errors.join('|')}:${events.length}`,
+);
+
+if (
+  tracedParent !== `00-${'a'.repeat(32)}-0000000000000001-01` ||
+  spanSummary.join() !==
+    [
+      'request:traced::0',
+      'request:traced.fail:JsonRpcRemoteError:0',
+      'request:traced.slow:JsonRpcTimeoutError:0',
+      'notification:traced.log::0',
+      'stream:traced.ticks::3',
+    ].join() ||
+  spans.some((span) => !span.ended)
+) {
+  throw new Error('tracer hooks or trace context propagation are wrong');
+}
+
+tracedClient.close();
+await traceMock.close();
+
+// 结构化日志：按级别输出带字段的日志，payload 按路径脱敏，监听器异常交给日志器
+const logMock = await MockJsonRpcServer.start({ listen: false });
+logMock.respond('login', true);
+logMock.fail('reset', {
+  code: 1001,
+  message: 'expired',
+  data: { resetToken: 's3cret', retryAfter: 5 },
+});
+const logEntries = [];
+const collect = (level) => (message, fields) =>
+  logEntries.push({ level, message, fields });
+const loggedClient = new JSONRPCWebSocket({
+  url: 'mock://log',
+  transport: logMock.transport,
+  logger: {
+    trace: collect('trace'),
+    debug: collect('debug'),
+    info: collect('info'),
+    warn: collect('warn'),
+    error: collect('error'),
+  },
+  redact: ['params.token', 'params.users.*.password', 'error.data.resetToken'],
+  autoReconnect: false,
+});
+await loggedClient.connect();
+await loggedClient.request({
+  method: 'login',
+  params: { token: 'secret', users: [{ name: 'a', password: 'hunter2' }] },
+});
+const resetError = await loggedClient
+  .request({ method: 'reset' })
+  .catch((error) => error);
+loggedClient.on('close', () => {
+  throw new Error('listener failure');
+});
+logMock.disconnect(4000, 'bye');
+await new Promise((resolve) => setTimeout(resolve, 20));
+
+const sentLog = logEntries.find(
+  ({ fields }) => fields.event === 'request.sent',
+);
+const responseLog = logEntries.find(
+  ({ fields }) => fields.event === 'response.received',
+);
+const closeLog = logEntries.find(
+  ({ fields }) => fields.event === 'connection.close',
+);
+const listenerLog = logEntries.find(
+  ({ fields }) => fields.event === 'listener.failed',
+);
+
+if (
+  sentLog?.level !== 'debug' ||
+  sentLog.fields.method !== 'login' ||
+  sentLog.fields.payload.params.token !== '[REDACTED]' ||
+  sentLog.fields.payload.params.users[0].password !== '[REDACTED]' ||
+  sentLog.fields.payload.params.users[0].name !== 'a' ||
+  logMock.callsTo('login')[0].params.token !== 'secret' ||
+  responseLog?.fields.id !== sentLog.fields.id ||
+  typeof responseLog.fields.duration !== 'number' ||
+  closeLog?.level !== 'info' ||
+  closeLog.fields.code !== 4000 ||
+  listenerLog?.level !== 'error' ||
+  listenerLog.fields.listener !== 'close' ||
+  JSON.stringify(logEntries).includes('hunter2') ||
+  JSON.stringify(logEntries).includes('s3cret') ||
+  !JSON.stringify(logEntries).includes('retryAfter') ||
+  resetError.data.resetToken !== 's3cret'
+) {
+  throw new Error('structured logger or payload redaction is wrong');
+}
+
+loggedClient.close();
+await logMock.close();
+
+// 流量录制与回放：录制收发帧与连接事件，导出后回放给新客户端，请求 ID 按发送顺序映射
+const recordMock = await MockJsonRpcServer.start({ listen: false });
+recordMock.respond('sum', 3);
+recordMock.stream('ticks', [1, 2]);
+const recorder = new TrafficRecorder();
+
+async function runRecordedSession(transport) {
+  const client = new JSONRPCWebSocket({
+    url: 'mock://record',
+    transport,
+    autoReconnect: false,
+  });
+  const news = [];
+  client.onNotification('news', (params) => news.push(params));
+  const closed = new Promise((resolve) =>
+    client.on(SocketEvent.Close, (event) => resolve(event.code)),
+  );
+  await client.connect();
+
+  const sum = client.request({ method: 'sum', params: [1, 2] });
+  const ticks = (async () => {
+    const items = [];
+    for await (const tick of client.streamIterator({ method: 'ticks' })) {
+      items.push(tick);
+    }
+    return items;
+  })();
+  return { client, news, closed, sum: await sum, ticks: await ticks };
+}
+
+const recorded = await runRecordedSession(recorder.wrap(recordMock.transport));
+recordMock.push('news', { n: 1 });
+await new Promise((resolve) => setTimeout(resolve, 20));
+recordMock.disconnect(4000, 'bye');
+const recordedClose = await recorded.closed;
+
+const frames = recorder.entries.filter((entry) => entry.type === 'frame');
+const ndjson = recorder.export();
+const packed = recorder.export('messagepack');
+const unpacked = parseRecording(packed);
+
+if (
+  recorded.sum !== 3 ||
+  recorded.ticks.join() !== '1,2' ||
+  recorded.news.length !== 1 ||
+  recordedClose !== 4000 ||
+  recorder.entries[0].type !== 'open' ||
+  recorder.entries.at(-1).type !== 'close' ||
+  recorder.entries.at(-1).code !== 4000 ||
+  !frames.some(
+    (entry) =>
+      entry.direction === 'outbound' && entry.decoded?.method === 'sum',
+  ) ||
+  !frames.some(
+    (entry) => entry.direction === 'inbound' && entry.decoded?.result === 3,
+  ) ||
+  !frames.every((entry) => entry.data instanceof Uint8Array) ||
+  ndjson.split('\n').length !== recorder.entries.length ||
+  unpacked.length !== recorder.entries.length ||
+  !parseRecording(ndjson).every(
+    (entry, index) =>
+      entry.type !== 'frame' ||
+      Buffer.from(entry.data).equals(Buffer.from(unpacked[index].data)),
+  )
+) {
+  throw new Error('traffic recorder did not capture the session');
+}
+
+const replay = new TrafficReplay(ndjson, { speed: Number.POSITIVE_INFINITY });
+const replayed = await runRecordedSession(replay.transport);
+const replayedClose = await replayed.closed;
+
+if (
+  replayed.sum !== 3 ||
+  replayed.ticks.join() !== '1,2' ||
+  replayed.news[0]?.n !== 1 ||
+  replayedClose !== 4000 ||
+  !replay.isFinished ||
+  replay.sent.map((entry) => entry.decoded.method).join() !== 'sum,ticks'
+) {
+  throw new Error('traffic replay did not reproduce the session');
+}
+
+await replay.whenFinished();
+recorded.client.close();
+replayed.client.close();
+await recordMock.close();
+
+// 并发限制与限速：超出并发的请求按优先级排队，令牌桶按全局与方法名限速，统计排队深度与等待时间
+const limitMock = await MockJsonRpcServer.start({ listen: false });
+limitMock.handle('work', (params) => params, { delay: 30 });
+const limitedClient = new JSONRPCWebSocket({
+  url: 'mock://limit',
+  transport: limitMock.transport,
+  maxConcurrentRequests: 2,
+  requestQueue: 'priority',
+});
+await limitedClient.connect();
+
+const abortQueued = new AbortController();
+const limitedResults = Promise.all([
+  limitedClient.request({ method: 'work', params: 'a' }),
+  limitedClient.request({ method: 'work', params: 'b' }),
+  limitedClient.request({ method: 'work', params: 'c' }),
+  limitedClient.request({ method: 'work', params: 'd', priority: 5 }),
+  limitedClient.request({ method: 'work', params: 'e', priority: 1 }),
+]);
+const abortedQueued = limitedClient
+  .request({ method: 'work', params: 'x', signal: abortQueued.signal })
+  .catch((error) => error);
+await new Promise((resolve) => setTimeout(resolve, 5));
+const saturatedStats = limitedClient.getStats();
+abortQueued.abort();
+
+if (
+  saturatedStats.pendingRequests !== 2 ||
+  saturatedStats.queuedCalls !== 4 ||
+  (await limitedResults).join() !== 'a,b,c,d,e' ||
+  !((await abortedQueued) instanceof JsonRpcAbortError) ||
+  limitMock
+    .callsTo('work')
+    .map((call) => call.params)
+    .join() !== 'a,b,d,e,c' ||
+  limitedClient.getStats().queuedCalls !== 0 ||
+  limitedClient.getStats().queueWait.count !== 5 ||
+  limitedClient.getStats().queueWait.max < 50
+) {
+  throw new Error('maxConcurrentRequests did not queue requests by priority');
+}
+
+const blocked = [1, 2, 3].map((n) =>
+  limitedClient.request({ method: 'work', params: n }).catch((error) => error),
+);
+limitedClient.close();
+if (
+  !(await Promise.all(blocked)).every(
+    (error) => error instanceof JsonRpcConnectionClosedError,
+  ) ||
+  limitMock.callsTo('work').length !== 5
+) {
+  throw new Error('close() did not reject calls waiting for a request slot');
+}
+
+const rateMock = await MockJsonRpcServer.start({ listen: false });
+const rateClient = new JSONRPCWebSocket({
+  url: 'mock://rate',
+  transport: rateMock.transport,
+  rateLimit: {
+    limit: 2,
+    interval: 100,
+    methods: { log: { limit: 1, interval: 200 } },
+  },
+});
+await rateClient.connect();
+const rateStart = Date.now();
+const paced = Promise.all([
+  rateClient.notify({ method: 'log' }),
+  rateClient.notify({ method: 'event' }),
+  rateClient.notify({ method: 'event' }),
+  rateClient.notify({ method: 'log' }),
+]);
+// 只有实际排队的调用计入 queuedCalls
+const pacedQueue = rateClient.getStats().queuedCalls;
+await paced;
+await new Promise((resolve) => setTimeout(resolve, 10));
+const arrivals = rateMock.calls.map(
+  (call) => `${call.method}@${Math.round((call.timestamp - rateStart) / 50)}`,
+);
+
+// 令牌桶容量为 2：前两个立即发送，第三个等待 50ms，第二个 log 受方法限速等待 200ms
+if (
+  arrivals.join() !== 'log@0,event@0,event@1,log@4' ||
+  pacedQueue !== 2 ||
+  rateClient.getStats().queueWait.count !== 4 ||
+  rateClient.getStats().queueWait.max < 190
+) {
+  throw new Error(`rateLimit did not pace calls: ${arrivals.join()}`);
+}
+
+// 批量请求中的每个条目各消耗一个令牌，整批在取得全部令牌后一次发送
+const batchRateClient = new JSONRPCWebSocket({
+  url: 'mock://rate',
+  transport: rateMock.transport,
+  rateLimit: { limit: 1, interval: 50 },
+});
+await batchRateClient.connect();
+rateMock.respond('sum', 3);
+const rateBatch = batchRateClient.batch();
+const rateBatchSum = rateBatch.request({ method: 'sum' });
+rateBatch.notify({ method: 'tick' });
+rateBatch.notify({ method: 'tick' });
+const batchStart = Date.now();
+await rateBatch.send();
+const batchElapsed = Date.now() - batchStart;
+
+if (
+  (await rateBatchSum) !== 3 ||
+  batchElapsed < 90 ||
+  batchRateClient.getStats().queueWait.count !== 3
+) {
+  throw new Error('batch entries bypassed the rate limiter');
+}
+
+batchRateClient.close();
+rateClient.close();
+await rateMock.close();
+await limitMock.close();
+
+// 批量请求经过中间件：逐条注入参数、短路与错误只影响对应条目
+const batchMiddlewareMock = await MockJsonRpcServer.start({ listen: false });
+batchMiddlewareMock.handle('whoami', (params) => params.token);
+const batchMiddlewareClient = new JSONRPCWebSocket({
+  url: 'mock://batch-middleware',
+  transport: batchMiddlewareMock.transport,
+});
+batchMiddlewareClient.use(async (context, next) => {
+  if (context.message.method === 'cached') {
+    context.response = { jsonrpc: '2.0', result: 'local', id: null };
+    return;
+  }
+  if (
+    context.message.method === 'forbidden' ||
+    context.message.method === 'blocked'
+  ) {
+    throw new Error('forbidden by middleware');
+  }
+  if (context.message.method === 'slow') {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  context.message.params = { ...context.message.params, token: 'T' };
+  await next();
+});
+await batchMiddlewareClient.connect();
+
+const middlewareBatch = batchMiddlewareClient.batch();
+const batchWhoami = middlewareBatch.request({
+  method: 'whoami',
+  params: { a: 2 },
+});
+const batchCached = middlewareBatch.request({ method: 'cached' });
+const batchForbidden = middlewareBatch
+  .request({ method: 'forbidden' })
+  .catch((error) => error);
+middlewareBatch.notify({ method: 'audit', params: { a: 3 } });
+await middlewareBatch.send();
+
+if (
+  (await batchWhoami) !== 'T' ||
+  (await batchCached) !== 'local' ||
+  (await batchForbidden)?.message !== 'forbidden by middleware' ||
+  (await batchMiddlewareMock.waitForCall('audit')).params.token !== 'T' ||
+  batchMiddlewareMock.calls.some((call) =>
+    ['cached', 'forbidden'].includes(call.method),
+  )
+) {
+  throw new Error('batch entries did not run through middleware');
+}
+
+// 通知的中间件错误在其他条目等待期间不会成为未处理的拒绝，由 send() 抛出
+batchMiddlewareMock.handle('slow', () => 'slow');
+const slowBatch = batchMiddlewareClient.batch();
+const batchSlow = slowBatch.request({ method: 'slow' });
+slowBatch.notify({ method: 'blocked' });
+const blockedError = await slowBatch.send().catch((error) => error);
+
+if (
+  blockedError?.message !== 'forbidden by middleware' ||
+  (await batchSlow) !== 'slow' ||
+  batchMiddlewareMock.calls.some((call) => call.method === 'blocked')
+) {
+  throw new Error('batch notification middleware error was not surfaced');
+}
+
+batchMiddlewareClient.close();
+await batchMiddlewareMock.close();
+
+// 服务端：响应无法编码时回复 InternalError 并上报 error 事件
+const encodeServer = new JsonRpcWebSocketServer({ codec: 'json' });
+const encodeErrors = [];
+encodeServer.on('error', (error) => encodeErrors.push(error));
+encodeServer.handle('big', () => 1n);
+encodeServer.handle('small', () => 1);
+const encodeClient = new JSONRPCWebSocket({
+  url: 'ws://loopback',
+  autoReconnect: false,
+  inboundMode: 'json',
+  outboundMode: 'json',
+  transport: () => {
+    const [clientEnd, serverEnd] = LoopbackTransport.pair();
+    void encodeServer.accept(serverEnd);
+    return clientEnd;
+  },
+});
+await encodeClient.connect();
+
+const bigError = await encodeClient
+  .request({ method: 'big' })
+  .catch((error) => error);
+const encodeBatch = encodeClient.batch();
+const batchBig = encodeBatch.request({ method: 'big' }).catch((error) => error);
+const batchSmall = encodeBatch.request({ method: 'small' });
+await encodeBatch.send();
+
+if (
+  bigError?.code !== JsonRpcErrorCode.InternalError ||
+  (await batchBig)?.code !== JsonRpcErrorCode.InternalError ||
+  (await batchSmall) !== 1 ||
+  encodeErrors.length !== 2
+) {
+  throw new Error('server did not recover from unencodable responses');
+}
+
+encodeClient.close();
+await encodeServer.close();
+
+// 默认传输只使用全局 WebSocket，Node.js 需显式使用 node 入口的传输
+const globalWebSocket = globalThis.WebSocket;
+globalThis.WebSocket = undefined;
+let defaultTransportError;
+try {
+  defaultTransport('ws://127.0.0.1:1');
+} catch (error) {
+  defaultTransportError = error;
+} finally {
+  globalThis.WebSocket = globalWebSocket;
+}
+
+if (
+  !defaultTransportError?.message.includes('nodeTransport') ||
+  !(nodeTransport('ws://127.0.0.1:1') instanceof NodeWebSocketTransport)
+) {
+  throw new Error('default transport fell back to ws');
+}
+
+console.log('json-rpc-websocket client feature smoke tests passed');